@@ -1,656 +1,5084 @@
 #!/usr/bin/env bun
 
-import { join } from 'node:path';
+import { basename, dirname, join, relative, resolve } from 'node:path';
 import { promises as fs } from 'node:fs';
+import { homedir } from 'node:os';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { simpleGit, SimpleGit } from 'simple-git';
 import { Octokit } from '@octokit/rest';
 import packageJson from './package.json' assert { type: 'json' };
 
 const VERSION = packageJson.version;
 
-interface PostHookConfig {
-  hooks: string[];
+// Bump when a field in --json/--porcelain output is removed or changes meaning
+const OUTPUT_SCHEMA_VERSION = 1;
+
+type OutputMode = 'text' | 'json' | 'porcelain';
+
+let outputMode: OutputMode = 'text';
+
+export class TmError extends Error {
+  constructor(public readonly code: string, message: string) {
+    super(message);
+    this.name = 'TmError';
+  }
+}
+
+export class NotATmRepoError extends TmError {
+  constructor(message = 'Not in a tm-managed repository (no .bare directory found)') {
+    super('NOT_A_TM_REPO', message);
+    this.name = 'NotATmRepoError';
+  }
+}
+
+export class WorktreeExistsError extends TmError {
+  constructor(message: string) {
+    super('WORKTREE_EXISTS', message);
+    this.name = 'WorktreeExistsError';
+  }
+}
+
+export class WorktreeNotFoundError extends TmError {
+  constructor(message: string) {
+    super('WORKTREE_NOT_FOUND', message);
+    this.name = 'WorktreeNotFoundError';
+  }
+}
+
+export class BranchNotFoundError extends TmError {
+  constructor(message: string) {
+    super('BRANCH_NOT_FOUND', message);
+    this.name = 'BranchNotFoundError';
+  }
+}
+
+export class InvalidConfigError extends TmError {
+  constructor(message: string) {
+    super('INVALID_CONFIG', message);
+    this.name = 'InvalidConfigError';
+  }
+}
+
+export class UnsafeRemoveError extends TmError {
+  constructor(message: string, public readonly risks: string[]) {
+    super('UNSAFE_REMOVE', message);
+    this.name = 'UnsafeRemoveError';
+  }
+}
+
+export interface ProgressEvent {
+  // stdout and stderr carry the output of commands run by `foreach`, one line per event
+  level: 'info' | 'warning' | 'stdout' | 'stderr';
+  message: string;
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// Set while a WorktreeManager runs a command: where to look for the repository and who hears about progress
+interface OperationContext {
+  cwd: string;
+  onProgress?: ProgressListener;
+}
+
+const operationContext = new AsyncLocalStorage<OperationContext>();
+
+function workingDirectory(): string {
+  return operationContext.getStore()?.cwd ?? process.cwd();
+}
+
+interface WorktreeRecord {
+  branch: string | null;
+  path: string;
+  head: string | null;
+  current: boolean;
+  // Number of changed files; null with `list --fast`
+  dirty: number | null;
+  // Submodules not at their recorded commit; null with `list --fast`
+  outdatedSubmodules: number | null;
+  ahead: number;
+  behind: number;
+  upstream: string | null;
+  base: string | null;
+  sparse: string | null;
+  orphaned: boolean;
+  locked: boolean;
+  lockReason: string | null;
+}
+
+interface ListResult {
+  worktrees: WorktreeRecord[];
+}
+
+export interface CloneResult {
+  url: string;
+  upstream: string | null;
+  root: string;
+  branch: string;
+  path: string;
+}
+
+export interface WorktreeResult {
+  branch: string;
+  path: string;
+  baseBranch: string | null;
+}
+
+export interface CreateWorktreeResult extends WorktreeResult {
+  carried: string[];
+}
+
+export interface RemoveResult {
+  branch: string;
+  path: string;
+  branchDeleted: boolean;
+}
+
+export interface ItemResult {
+  branch: string;
+  path: string;
+  status: string;
+  message: string | null;
+}
+
+export interface BatchResult {
+  results: ItemResult[];
+}
+
+// Human-readable progress; machine-readable modes only print the final result
+function log(message = ''): void {
+  const context = operationContext.getStore();
+  if (context) {
+    context.onProgress?.({ level: 'info', message });
+  } else if (outputMode === 'text') {
+    console.log(message);
+  }
+}
+
+// Problems that do not stop the command; always on stderr for the CLI
+function warn(message: string): void {
+  const context = operationContext.getStore();
+  if (context) {
+    context.onProgress?.({ level: 'warning', message });
+  } else {
+    console.error(message);
+  }
+}
+
+// A line of output from a command tm runs for the user, kept apart from tm's own messages
+function printOutput(level: 'stdout' | 'stderr', message = ''): void {
+  const context = operationContext.getStore();
+  if (context) {
+    context.onProgress?.({ level, message });
+  } else if (level === 'stdout' && outputMode === 'text') {
+    console.log(message);
+  } else {
+    console.error(message);
+  }
+}
+
+function wrapError(error: unknown, code: string, prefix: string): TmError {
+  if (error instanceof TmError) {
+    return error;
+  }
+  return new TmError(code, `${prefix}: ${(error as Error).message.trim()}`);
+}
+
+function toWorktreeRecord(wt: WorktreeStatus): WorktreeRecord {
+  return {
+    branch: wt.branch || null,
+    path: wt.path,
+    head: wt.head,
+    current: wt.isCurrent,
+    dirty: wt.modified,
+    outdatedSubmodules: wt.outdatedSubmodules,
+    ahead: wt.ahead,
+    behind: wt.behind,
+    upstream: wt.upstream,
+    base: wt.base,
+    sparse: wt.sparse,
+    orphaned: !wt.exists,
+    locked: wt.locked,
+    lockReason: wt.lockReason
+  };
+}
+
+// git-style records: one "key value" per line, bare key for true flags, blank line between records
+function toPorcelain(data: object): string {
+  const summary: Record<string, unknown> = {};
+  const records: Record<string, unknown>[] = [];
+  
+  for (const [key, value] of Object.entries(data)) {
+    // Lists of records become records; lists of plain values stay one field
+    if (Array.isArray(value) && value.every(item => typeof item === 'object')) {
+      records.push(...value);
+    } else {
+      summary[key] = value;
+    }
+  }
+  if (Object.keys(summary).length > 0) {
+    records.unshift(summary);
+  }
+  
+  return records.map(record => Object.entries(record)
+    .filter(([, value]) => value !== null && value !== undefined && value !== false)
+    .map(([key, value]) => {
+      const name = key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+      const text = Array.isArray(value) ? value.join(' ') : String(value);
+      return value === true ? name : `${name} ${text.replace(/\n/g, ' ')}`;
+    })
+    .join('\n') + '\n'
+  ).join('\n');
+}
+
+function emitResult(command: string, data: object): void {
+  if (outputMode === 'json') {
+    console.log(JSON.stringify({ schemaVersion: OUTPUT_SCHEMA_VERSION, command, ok: true, data }, null, 2));
+  } else if (outputMode === 'porcelain') {
+    process.stdout.write(toPorcelain(data));
+  }
+}
+
+function emitError(command: string | undefined, error: unknown): void {
+  const tmError = error instanceof TmError
+    ? error
+    : new TmError('UNEXPECTED_ERROR', `Error: ${(error as Error).message}`);
+  
+  if (outputMode === 'json') {
+    console.log(JSON.stringify({
+      schemaVersion: OUTPUT_SCHEMA_VERSION,
+      command: command ?? null,
+      ok: false,
+      error: { code: tmError.code, message: tmError.message }
+    }, null, 2));
+  } else if (outputMode === 'porcelain') {
+    process.stdout.write(toPorcelain({ error: tmError.code, message: tmError.message }));
+  } else {
+    console.error(tmError.message);
+  }
+}
+
+type HookEvent = 'pre-create' | 'post-create' | 'pre-remove' | 'post-remove' | 'post-sync' | 'post-switch' | 'post-move';
+
+type HookFailurePolicy = 'abort' | 'warn' | 'ignore';
+
+const HOOK_EVENTS: HookEvent[] = ['pre-create', 'post-create', 'pre-remove', 'post-remove', 'post-sync', 'post-switch', 'post-move'];
+
+interface HookDefinition {
+  run: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  timeout?: number; // seconds
+  onFailure?: HookFailurePolicy;
+}
+
+type HookEntry = string | HookDefinition;
+
+interface HookConfig {
+  // A plain array is the original format and is treated as "post-create"
+  hooks: HookEntry[] | Partial<Record<HookEvent, HookEntry[]>>;
+}
+
+interface HookContext {
+  repoRoot: string;
+  branch: string;
+  worktreePath: string;
+  baseBranch?: string;
+  // Where a moved worktree was
+  previousBranch?: string;
+  previousWorktreePath?: string;
+  // Send hook output to stderr
+  toStderr?: boolean;
+}
+
+export interface RemoveOptions {
+  deleteBranch?: boolean;
+  // With deleteBranch: only if merged into the default branch (-d), not just pushed (-D)
+  requireMerged?: boolean;
+  // Remove even when work would be lost
+  force?: boolean;
+  // The caller found the branch merged in a way git cannot see (e.g. squash-merged)
+  merged?: boolean;
+}
+
+async function loadHookConfig(repoRoot: string): Promise<Partial<Record<HookEvent, HookDefinition[]>>> {
+  const hookFile = Bun.file(join(repoRoot, 'post-hook.json'));
+  
+  if (!(await hookFile.exists())) {
+    return {};
+  }
+  
+  let config: HookConfig;
+  try {
+    config = await hookFile.json();
+  } catch (error) {
+    throw new InvalidConfigError(`Invalid post-hook.json: ${(error as Error).message}`);
+  }
+  
+  const byEvent: Partial<Record<HookEvent, HookEntry[]>> = Array.isArray(config.hooks)
+    ? { 'post-create': config.hooks }
+    : config.hooks ?? {};
+  
+  const result: Partial<Record<HookEvent, HookDefinition[]>> = {};
+  for (const [event, entries] of Object.entries(byEvent)) {
+    if (!HOOK_EVENTS.includes(event as HookEvent)) {
+      throw new InvalidConfigError(`Invalid post-hook.json: unknown hook event '${event}'`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new InvalidConfigError(`Invalid post-hook.json: hooks for '${event}' must be an array`);
+    }
+    
+    result[event as HookEvent] = entries.map(entry => {
+      const hook = typeof entry === 'string' ? { run: entry } : entry;
+      if (!hook || typeof hook.run !== 'string') {
+        throw new InvalidConfigError(`Invalid post-hook.json: every '${event}' hook needs a "run" command`);
+      }
+      if (hook.onFailure && !['abort', 'warn', 'ignore'].includes(hook.onFailure)) {
+        throw new InvalidConfigError(`Invalid post-hook.json: onFailure must be "abort", "warn" or "ignore"`);
+      }
+      return hook;
+    });
+  }
+  
+  return result;
+}
+
+function emptyHookConfig(): HookConfig {
+  return {
+    hooks: Object.fromEntries(HOOK_EVENTS.map(event => [event, []]))
+  };
+}
+
+// Describes the worktree, and its allocated values, to hooks and to commands run by `tm foreach`
+async function worktreeEnv(context: HookContext): Promise<Record<string, string>> {
+  const allocation = (await readEnvRegistry(join(context.repoRoot, '.bare')))[relative(context.repoRoot, context.worktreePath)];
+  return {
+    ...(allocation ? exportedEnv(allocation) : {}),
+    TM_BRANCH: context.branch,
+    TM_WORKTREE_PATH: context.worktreePath,
+    TM_REPO_ROOT: context.repoRoot,
+    TM_BASE_BRANCH: context.baseBranch ?? '',
+    ...(context.previousBranch ? { TM_PREVIOUS_BRANCH: context.previousBranch } : {}),
+    ...(context.previousWorktreePath ? { TM_PREVIOUS_WORKTREE_PATH: context.previousWorktreePath } : {})
+  };
+}
+
+async function runHooks(event: HookEvent, context: HookContext): Promise<void> {
+  const hooks = (await loadHookConfig(context.repoRoot))[event] ?? [];
+  if (hooks.length === 0) {
+    return;
+  }
+  
+  // Keep stdout clean for `cd $(tm switch x)` and for --json/--porcelain output
+  const toStderr = context.toStderr || outputMode !== 'text';
+  const announce = operationContext.getStore() ? log : toStderr ? console.error : console.log;
+  
+  // post-remove hooks run after the worktree directory is gone
+  const defaultCwd = (await directoryExists(context.worktreePath)) ? context.worktreePath : context.repoRoot;
+  
+  const env = {
+    ...process.env,
+    TM_EVENT: event,
+    ...await worktreeEnv(context)
+  };
+  
+  for (const hook of hooks) {
+    // Failing before a change aborts it by default; failing after one only warns
+    const policy = hook.onFailure ?? (event.startsWith('pre-') ? 'abort' : 'warn');
+    
+    announce(`Running ${event} hook: ${hook.run}`);
+    const proc = Bun.spawn(['sh', '-c', hook.run], {
+      cwd: hook.cwd ? resolve(defaultCwd, hook.cwd) : defaultCwd,
+      env: { ...env, ...hook.env },
+      timeout: hook.timeout ? hook.timeout * 1000 : undefined,
+      stdin: "inherit",
+      stdout: toStderr ? 2 : "inherit",
+      stderr: "inherit"
+    });
+    
+    const exitCode = await proc.exited;
+    if (exitCode === 0) {
+      continue;
+    }
+    
+    const reason = proc.signalCode && hook.timeout
+      ? `timed out after ${hook.timeout}s`
+      : `failed with exit code ${exitCode}`;
+    const message = `${event} hook '${hook.run}' ${reason}`;
+    
+    if (policy === 'abort') {
+      throw new Error(message);
+    }
+    if (policy === 'warn') {
+      warn(`Warning: ${message}`);
+    }
+  }
+}
+
+// simple-git only rejects when git writes to stderr, so yes/no commands like
+// `merge-base --is-ancestor` need their exit code checked directly
+async function gitSucceeds(cwd: string, args: string[]): Promise<boolean> {
+  const proc = Bun.spawn(['git', ...args], { cwd, stdout: 'ignore', stderr: 'ignore' });
+  return (await proc.exited) === 0;
+}
+
+interface GitOutput {
+  code: number;
+  output: string;
+}
+
+// For commands like merge and rebase that report conflicts on stdout with a non-zero exit
+async function runGit(cwd: string, args: string[]): Promise<GitOutput> {
+  const proc = Bun.spawn(['git', ...args], { cwd, stdout: 'pipe', stderr: 'pipe' });
+  const [stdout, stderr, code] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited
+  ]);
+  return { code, output: `${stdout}${stderr}`.trim() };
+}
+
+// Runs fn over items with at most `limit` calls in flight, keeping the results in order
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function getHeadBranch(git: SimpleGit): Promise<string | undefined> {
+  try {
+    return (await git.raw(['symbolic-ref', '--short', 'HEAD'])).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export type SyncStrategy = 'merge' | 'rebase' | 'ff-only';
+
+export type CloneProtocol = 'https' | 'ssh';
+
+export type SubmoduleMode = 'update' | 'reference' | 'skip';
+
+// Glob patterns, relative to the worktree, of untracked files to bring into new worktrees
+export interface CarryConfig {
+  copy?: string[];
+  symlink?: string[];
+}
+
+// Per-worktree values so worktrees can run side by side, e.g. dev server ports and database names
+export interface EnvConfig {
+  // Generated in each worktree (default: .env.worktree)
+  file?: string;
+  // Variable -> inclusive port range; each worktree gets the lowest port no other worktree holds
+  ports?: Record<string, [number, number]>;
+  // Variable -> template with {repo}, {branch}, {branch_slug} and {index} placeholders
+  values?: Record<string, string>;
+}
+
+export interface TmConfig {
+  // Placeholders: {root}, {repo}, {branch}, {branch_flat}, {branch_slug}; relative paths resolve against {root}
+  worktreePath: string;
+  defaultBranch?: string;
+  remote: string;
+  // Remote of the project a fork was cloned from; new branches start from its default branch
+  upstreamRemote: string;
+  branchPrefix: string;
+  syncStrategy: SyncStrategy;
+  carry: CarryConfig;
+  // Seconds `list --cached` may reuse a worktree's status while its index is unchanged
+  listCacheTtl: number;
+  // Host that "user/repo" shorthands are cloned from
+  defaultHost: string;
+  cloneProtocol: CloneProtocol;
+  // Self-hosted or enterprise hosts, and overrides for the known ones
+  hosts: Record<string, Partial<HostConfig>>;
+  env: EnvConfig;
+  // Sparse-checkout profiles: name -> directories to check out
+  sparse: Record<string, string[]>;
+  // How new worktrees get their submodules; reference borrows objects from the default branch's worktree
+  submodules: SubmoduleMode;
+  // Fetch Git LFS files into new worktrees
+  lfs: boolean;
+}
+
+const DEFAULT_CONFIG: TmConfig = {
+  worktreePath: '{root}/{branch}',
+  remote: 'origin',
+  upstreamRemote: 'upstream',
+  branchPrefix: '',
+  syncStrategy: 'merge',
+  carry: {},
+  listCacheTtl: 5,
+  defaultHost: 'github.com',
+  cloneProtocol: 'https',
+  hosts: {},
+  env: {},
+  sparse: {},
+  submodules: 'update',
+  lfs: true
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+const CONFIG_VALIDATORS: { [K in keyof TmConfig]-?: (value: unknown) => string | null } = {
+  worktreePath: value => typeof value === 'string' && /\{branch(_flat|_slug)?\}/.test(value)
+    ? null
+    : 'must be a string containing {branch}, {branch_flat} or {branch_slug}',
+  defaultBranch: value => typeof value === 'string' && value ? null : 'must be a branch name',
+  remote: value => typeof value === 'string' && value ? null : 'must be a remote name',
+  upstreamRemote: value => typeof value === 'string' && value ? null : 'must be a remote name',
+  branchPrefix: value => typeof value === 'string' ? null : 'must be a string',
+  syncStrategy: value => ['merge', 'rebase', 'ff-only'].includes(value as string)
+    ? null
+    : 'must be "merge", "rebase" or "ff-only"',
+  carry: value => value && typeof value === 'object' && !Array.isArray(value)
+    && Object.entries(value).every(([key, patterns]) => ['copy', 'symlink'].includes(key) && isStringArray(patterns))
+    ? null
+    : 'must be an object with "copy" and/or "symlink" lists of glob patterns',
+  listCacheTtl: value => typeof value === 'number' && value >= 0 ? null : 'must be a number of seconds',
+  defaultHost: value => typeof value === 'string' && value ? null : 'must be a host name',
+  cloneProtocol: value => ['https', 'ssh'].includes(value as string) ? null : 'must be "https" or "ssh"',
+  hosts: value => value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(isHostConfig)
+    ? null
+    : 'must map host names to { provider, apiUrl?, protocol?, alias?, tokenEnv? }',
+  env: value => isEnvConfig(value)
+    ? null
+    : 'must be { file?, ports?: { NAME: [first, last] }, values?: { NAME: "template" } }',
+  sparse: value => value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(directories => isStringArray(directories) && directories.length > 0)
+    ? null
+    : 'must map profile names to lists of directories',
+  submodules: value => ['update', 'reference', 'skip'].includes(value as string)
+    ? null
+    : 'must be "update", "reference" or "skip"',
+  lfs: value => typeof value === 'boolean' ? null : 'must be true or false'
+};
+
+function isEnvConfig(value: unknown): boolean {
+  const isObject = (field: unknown) => !!field && typeof field === 'object' && !Array.isArray(field);
+  if (!isObject(value)) {
+    return false;
+  }
+  const { file, ports = {}, values = {}, ...rest } = value as Record<string, unknown>;
+  return Object.keys(rest).length === 0
+    && (file === undefined || (typeof file === 'string' && file !== ''))
+    && isObject(ports) && Object.values(ports as object).every(range => Array.isArray(range)
+      && range.length === 2 && range.every(Number.isInteger) && range[0] <= range[1])
+    && isObject(values) && Object.values(values as object).every(template => typeof template === 'string');
+}
+
+function isHostConfig(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const { provider, apiUrl, protocol, alias, tokenEnv, ...rest } = value as Record<string, unknown>;
+  const optionalString = (field: unknown) => field === undefined || typeof field === 'string';
+  return Object.keys(rest).length === 0
+    && (provider === undefined || PROVIDER_KINDS.includes(provider as ProviderKind))
+    && (protocol === undefined || ['https', 'ssh'].includes(protocol as string))
+    && optionalString(apiUrl) && optionalString(alias) && optionalString(tokenEnv);
+}
+
+interface RepoContext {
+  barePath: string;
+  root: string;
+  config: TmConfig;
+}
+
+function globalConfigPath(): string {
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'tm', 'config.json');
+}
+
+async function readConfigFile(path: string): Promise<Partial<TmConfig>> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return {};
+  }
+  
+  let raw: unknown;
+  try {
+    raw = await file.json();
+  } catch (error) {
+    throw new InvalidConfigError(`Invalid ${path}: ${(error as Error).message}`);
+  }
+  
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new InvalidConfigError(`Invalid ${path}: expected a JSON object`);
+  }
+  
+  for (const [key, value] of Object.entries(raw)) {
+    const validate = CONFIG_VALIDATORS[key as keyof TmConfig];
+    if (!validate) {
+      throw new InvalidConfigError(`Invalid ${path}: unknown setting '${key}'`);
+    }
+    const problem = validate(value);
+    if (problem) {
+      throw new InvalidConfigError(`Invalid ${path}: '${key}' ${problem}`);
+    }
+  }
+  
+  return raw as Partial<TmConfig>;
+}
+
+// Repository tm.json overrides the global config, which overrides the defaults
+async function loadConfig(repoRoot?: string): Promise<TmConfig> {
+  return {
+    ...DEFAULT_CONFIG,
+    ...(await readConfigFile(globalConfigPath())),
+    ...(repoRoot ? await readConfigFile(join(repoRoot, 'tm.json')) : {})
+  };
+}
+
+async function requireRepo(): Promise<RepoContext> {
+  const barePath = await requireBarePath();
+  const root = dirname(barePath);
+  
+  return { barePath, root, config: await loadConfig(root) };
+}
+
+// "feature/JIRA-123-foo" -> "feature-JIRA-123-foo"
+function flattenBranch(branchName: string): string {
+  return branchName.replace(/\//g, '-');
+}
+
+// "feature/JIRA-123-foo" -> "feature-jira-123-foo"
+function slugifyBranch(branchName: string): string {
+  return branchName.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function resolveWorktreePath(repo: Pick<RepoContext, 'root' | 'config'>, branchName: string): string {
+  const path = repo.config.worktreePath
+    .replace(/\{root\}/g, repo.root)
+    .replace(/\{repo\}/g, basename(repo.root))
+    .replace(/\{branch_flat\}/g, flattenBranch(branchName))
+    .replace(/\{branch_slug\}/g, slugifyBranch(branchName))
+    .replace(/\{branch\}/g, branchName);
+  
+  return resolve(repo.root, path);
+}
+
+function applyBranchPrefix(config: TmConfig, branchName: string): string {
+  if (!config.branchPrefix || branchName.startsWith(config.branchPrefix)) {
+    return branchName;
+  }
+  return `${config.branchPrefix}${branchName}`;
+}
+
+async function getDefaultBranch(repo: RepoContext, git: SimpleGit): Promise<string> {
+  return repo.config.defaultBranch ?? getMainBranch(git, repo.config.remote);
+}
+
+// The ref a branch was started from is recorded as branch.<name>.tmBase
+// Prefers the freshly fetched remote branch over a local branch of the same name
+async function preferRemoteBranch(bareGit: SimpleGit, remote: string, branchName: string): Promise<string> {
+  const remoteRef = `refs/remotes/${remote}/${branchName}`;
+  const exists = await bareGit.raw(['for-each-ref', '--format=%(refname)', remoteRef]).catch(() => '');
+  return exists.trim() === remoteRef ? `${remote}/${branchName}` : branchName;
+}
+
+const BASE_CONFIG_KEY = 'tmBase';
+// The commit the branch was created at, which tells a new branch from a merged one
+const START_CONFIG_KEY = 'tmStart';
+
+interface BaseRemote {
+  remote: string;
+  defaultBranch: string;
+}
+
+// Forks start (and rebase) new branches on the project they were forked from, when it is a remote
+async function getBaseRemote(repo: RepoContext, bareGit: SimpleGit): Promise<BaseRemote> {
+  const remotes = (await bareGit.getRemotes()).map(r => r.name);
+  if (!remotes.includes(repo.config.upstreamRemote)) {
+    return { remote: repo.config.remote, defaultBranch: await getDefaultBranch(repo, bareGit) };
+  }
+  const remote = repo.config.upstreamRemote;
+  return { remote, defaultBranch: repo.config.defaultBranch ?? await getMainBranch(bareGit, remote) };
+}
+
+async function getRecordedBases(git: SimpleGit): Promise<Map<string, string>> {
+  return getBranchSettings(git, BASE_CONFIG_KEY);
+}
+
+// branch.<name>.<setting> of every branch that has it
+async function getBranchSettings(git: SimpleGit, setting: string): Promise<Map<string, string>> {
+  const output = await git.raw(['config', '--get-regexp', `^branch\\..*\\.${setting.toLowerCase()}$`]).catch(() => '');
+  const values = new Map<string, string>();
+  
+  for (const line of output.split('\n').filter(Boolean)) {
+    const [key, value] = [line.slice(0, line.indexOf(' ')), line.slice(line.indexOf(' ') + 1)];
+    // Branch names may contain dots, so strip the known prefix and suffix
+    values.set(key.slice('branch.'.length, -(setting.length + 1)), value);
+  }
+  
+  return values;
+}
+
+// The recorded base of a branch, falling back to the default branch
+async function resolveBaseBranch(repo: RepoContext, git: SimpleGit, branchName: string): Promise<string | undefined> {
+  if (branchName) {
+    const recorded = await git.raw(['config', `branch.${branchName}.${BASE_CONFIG_KEY}`]).catch(() => '');
+    if (recorded.trim()) {
+      return recorded.trim();
+    }
+  }
+  
+  try {
+    return await getDefaultBranch(repo, git);
+  } catch {
+    return undefined;
+  }
+}
+
+// What "merged" means for a branch: into its recorded base while that still exists, else
+// into the default branch. Remote branches are preferred, as they are freshly fetched.
+async function getMergeTarget(repo: RepoContext, git: SimpleGit, branchName: string): Promise<string | undefined> {
+  const recorded = (await git.raw(['config', `branch.${branchName}.${BASE_CONFIG_KEY}`]).catch(() => '')).trim();
+  if (recorded && await gitSucceeds(repo.barePath, ['rev-parse', '--verify', '--quiet', `${recorded}^{commit}`])) {
+    return preferRemoteBranch(git, repo.config.remote, recorded);
+  }
+  
+  try {
+    return await preferRemoteBranch(git, repo.config.remote, await getDefaultBranch(repo, git));
+  } catch {
+    return undefined;
+  }
+}
+
+// Hosting providers: repository and pull request metadata for GitHub, GitLab, Gitea/Forgejo and Bitbucket
+export type ProviderKind = 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+
+const PROVIDER_KINDS: ProviderKind[] = ['github', 'gitlab', 'gitea', 'bitbucket'];
+
+export interface HostConfig {
+  provider: ProviderKind;
+  // Defaults to the provider's usual API path on the host
+  apiUrl?: string;
+  protocol?: CloneProtocol;
+  // Shorthand prefix, e.g. "gl" for "gl:group/repo"
+  alias?: string;
+  // Environment variable holding the API token
+  tokenEnv?: string;
+}
+
+const KNOWN_HOSTS: Record<string, HostConfig> = {
+  'github.com': { provider: 'github', alias: 'gh' },
+  'gitlab.com': { provider: 'gitlab', alias: 'gl' },
+  'codeberg.org': { provider: 'gitea', alias: 'cb' },
+  'bitbucket.org': { provider: 'bitbucket', alias: 'bb' }
+};
+
+const DEFAULT_TOKEN_ENVS: Record<ProviderKind, string[]> = {
+  github: ['GITHUB_TOKEN', 'GH_TOKEN'],
+  gitlab: ['GITLAB_TOKEN'],
+  gitea: ['GITEA_TOKEN', 'FORGEJO_TOKEN'],
+  bitbucket: ['BITBUCKET_TOKEN']
+};
+
+// Where a repository lives; host is null for local paths
+interface RepoLocation {
+  host: string | null;
+  // "owner/repo" or "group/subgroup/repo", without ".git"
+  path: string;
+  name: string;
+}
+
+interface RepositoryInfo {
+  defaultBranch: string | null;
+  // "owner/repo" on the same host when this repository is a fork
+  parent: string | null;
+}
+
+interface HostingProvider {
+  kind: ProviderKind;
+  getRepository(path: string): Promise<RepositoryInfo | null>;
+  getPullRequest(path: string, n: number): Promise<PullRequestInfo | null>;
+}
+
+// Handles scheme URLs (https, ssh, git, file), scp-style "git@host:path" and local paths
+function parseRepoUrl(url: string): RepoLocation | null {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  let host: string | null = null;
+  let path = trimmed;
+  
+  const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(trimmed);
+  const scp = /^(?:[^@/]+@)?([^:/]+):(?!\/\/)(.+)$/.exec(trimmed);
+  if (scheme) {
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch {
+      return null;
+    }
+    host = scheme[1].toLowerCase() === 'file' ? null : parsed.hostname;
+    path = decodeURIComponent(parsed.pathname);
+  } else if (scp && scp[1].length > 1) {
+    // A single letter before the colon is a Windows drive, not a host
+    [, host, path] = scp;
+  }
+  
+  if (host !== null) {
+    path = path.replace(/^\/+/, '');
+  }
+  path = path.replace(/\.git$/, '');
+  
+  const name = path.split('/').filter(Boolean).pop();
+  return name ? { host, path, name } : null;
+}
+
+function getHostConfig(config: TmConfig, host: string): HostConfig | null {
+  const hostConfig = { ...KNOWN_HOSTS[host], ...config.hosts[host] };
+  return hostConfig.provider ? hostConfig : null;
+}
+
+function findHostByAlias(config: TmConfig, alias: string): string | undefined {
+  const hosts = { ...KNOWN_HOSTS, ...config.hosts };
+  return Object.keys(hosts).find(host => hosts[host].alias === alias);
+}
+
+async function getToken(host: string, hostConfig: HostConfig): Promise<string | undefined> {
+  const envs = hostConfig.tokenEnv ? [hostConfig.tokenEnv] : DEFAULT_TOKEN_ENVS[hostConfig.provider];
+  const fromEnv = envs.map(name => process.env[name]).find(Boolean);
+  if (fromEnv || hostConfig.provider !== 'github') {
+    return fromEnv;
+  }
+  
+  // Reuse a `gh auth login` session when there is no token in the environment
+  try {
+    const proc = Bun.spawn(['gh', 'auth', 'token', '--hostname', host], { stdout: 'pipe', stderr: 'ignore', timeout: 5000 });
+    const token = (await new Response(proc.stdout).text()).trim();
+    return (await proc.exited) === 0 && token ? token : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// GET a JSON resource; null when it does not exist (or is private and we have no access)
+async function requestJson<T>(url: string, headers: Record<string, string>): Promise<T | null> {
+  const response = await fetch(url, { headers: { Accept: 'application/json', ...headers } });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new TmError('API_FAILED', `${url} returned ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as T;
+}
+
+function createGitHubProvider(apiUrl: string, token?: string): HostingProvider {
+  const octokit = new Octokit({ baseUrl: apiUrl, auth: token });
+  const split = (path: string) => {
+    const [owner, repo] = path.split('/');
+    return { owner, repo };
+  };
+  
+  return {
+    kind: 'github',
+    async getRepository(path) {
+      try {
+        const { data } = await octokit.rest.repos.get(split(path));
+        return { defaultBranch: data.default_branch || null, parent: data.parent?.full_name ?? null };
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async getPullRequest(path, n) {
+      try {
+        const { data } = await octokit.rest.pulls.get({ ...split(path), pull_number: n });
+        return {
+          title: data.title,
+          headBranch: data.head.ref,
+          baseBranch: data.base.ref,
+          state: data.state as 'open' | 'closed',
+          merged: data.merged
+        };
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) {
+          return null;
+        }
+        throw error;
+      }
+    }
+  };
+}
+
+function createGitLabProvider(apiUrl: string, token?: string): HostingProvider {
+  const headers: Record<string, string> = token ? { 'PRIVATE-TOKEN': token } : {};
+  const project = (path: string) => `${apiUrl}/projects/${encodeURIComponent(path)}`;
+  
+  return {
+    kind: 'gitlab',
+    async getRepository(path) {
+      const data = await requestJson<{ default_branch?: string; forked_from_project?: { path_with_namespace: string } }>(
+        project(path), headers);
+      return data && {
+        defaultBranch: data.default_branch || null,
+        parent: data.forked_from_project?.path_with_namespace ?? null
+      };
+    },
+    async getPullRequest(path, n) {
+      const data = await requestJson<{ title: string; source_branch: string; target_branch: string; state: string }>(
+        `${project(path)}/merge_requests/${n}`, headers);
+      return data && {
+        title: data.title,
+        headBranch: data.source_branch,
+        baseBranch: data.target_branch,
+        state: data.state === 'opened' ? 'open' : 'closed',
+        merged: data.state === 'merged'
+      };
+    }
+  };
+}
+
+function createGiteaProvider(apiUrl: string, token?: string): HostingProvider {
+  const headers: Record<string, string> = token ? { Authorization: `token ${token}` } : {};
+  
+  return {
+    kind: 'gitea',
+    async getRepository(path) {
+      const data = await requestJson<{ default_branch?: string; parent?: { full_name: string } | null }>(
+        `${apiUrl}/repos/${path}`, headers);
+      return data && { defaultBranch: data.default_branch || null, parent: data.parent?.full_name ?? null };
+    },
+    async getPullRequest(path, n) {
+      const data = await requestJson<{ title: string; head: { ref: string }; base: { ref: string }; state: string; merged: boolean }>(
+        `${apiUrl}/repos/${path}/pulls/${n}`, headers);
+      return data && {
+        title: data.title,
+        headBranch: data.head.ref,
+        baseBranch: data.base.ref,
+        state: data.state === 'open' ? 'open' : 'closed',
+        merged: data.merged
+      };
+    }
+  };
+}
+
+function createBitbucketProvider(apiUrl: string, token?: string): HostingProvider {
+  const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+  
+  return {
+    kind: 'bitbucket',
+    async getRepository(path) {
+      const data = await requestJson<{ mainbranch?: { name: string }; parent?: { full_name: string } }>(
+        `${apiUrl}/repositories/${path}`, headers);
+      return data && { defaultBranch: data.mainbranch?.name ?? null, parent: data.parent?.full_name ?? null };
+    },
+    async getPullRequest(path, n) {
+      const data = await requestJson<{ title: string; source: { branch: { name: string } }; destination: { branch: { name: string } }; state: string }>(
+        `${apiUrl}/repositories/${path}/pullrequests/${n}`, headers);
+      return data && {
+        title: data.title,
+        headBranch: data.source.branch.name,
+        baseBranch: data.destination.branch.name,
+        state: data.state === 'OPEN' ? 'open' : 'closed',
+        merged: data.state === 'MERGED'
+      };
+    }
+  };
+}
+
+function defaultApiUrl(kind: ProviderKind, host: string): string {
+  switch (kind) {
+    case 'github':
+      return host === 'github.com' ? 'https://api.github.com' : `https://${host}/api/v3`;
+    case 'gitlab':
+      return `https://${host}/api/v4`;
+    case 'gitea':
+      return `https://${host}/api/v1`;
+    case 'bitbucket':
+      return 'https://api.bitbucket.org/2.0';
+  }
+}
+
+// The provider for a host, or null when the host is unknown and not configured
+async function getProvider(config: TmConfig, host: string | null): Promise<HostingProvider | null> {
+  const hostConfig = host ? getHostConfig(config, host) : null;
+  if (!host || !hostConfig) {
+    return null;
+  }
+  
+  const apiUrl = (hostConfig.apiUrl ?? defaultApiUrl(hostConfig.provider, host)).replace(/\/+$/, '');
+  const token = await getToken(host, hostConfig);
+  
+  switch (hostConfig.provider) {
+    case 'github':
+      return createGitHubProvider(apiUrl, token);
+    case 'gitlab':
+      return createGitLabProvider(apiUrl, token);
+    case 'gitea':
+      return createGiteaProvider(apiUrl, token);
+    case 'bitbucket':
+      return createBitbucketProvider(apiUrl, token);
+  }
+}
+
+// Expands "user/repo" (on defaultHost) and "gl:group/sub/repo" shorthands; URLs and paths pass through
+async function resolveRepoUrl(repoInput: string, config: TmConfig): Promise<string> {
+  const aliased = /^([a-z0-9-]+):([^/].*)$/i.exec(repoInput);
+  const aliasHost = aliased ? findHostByAlias(config, aliased[1]) : undefined;
+  
+  let host: string;
+  let path: string;
+  if (aliased && aliasHost) {
+    host = aliasHost;
+    path = aliased[2];
+  } else if (/^[\w.-]+(\/[\w.-]+)+$/.test(repoInput) && !(await pathExists(repoInput))) {
+    host = config.defaultHost;
+    path = repoInput;
+  } else {
+    return repoInput;
+  }
+  
+  path = path.replace(/\.git$/, '');
+  return buildRepoUrl(host, path, getHostConfig(config, host)?.protocol ?? config.cloneProtocol);
+}
+
+function buildRepoUrl(host: string, path: string, protocol: CloneProtocol): string {
+  return protocol === 'ssh' ? `git@${host}:${path}.git` : `https://${host}/${path}.git`;
+}
+
+// Adds the project a fork was cloned from as a second remote; pushes keep going to the fork
+async function addUpstreamRemote(bareGit: SimpleGit, config: TmConfig, url: string): Promise<void> {
+  await bareGit.addRemote(config.upstreamRemote, url);
+  await configureRemoteTracking(bareGit, config.upstreamRemote);
+  await bareGit.raw(['config', 'remote.pushDefault', config.remote]);
+  log(`Added ${config.upstreamRemote} remote ${url}`);
+}
+
+async function getMainBranch(git: SimpleGit, remote = 'origin'): Promise<string> {
+  try {
+    // Try to get default remote branch
+    const result = await git.raw(['symbolic-ref', `refs/remotes/${remote}/HEAD`]);
+    if (result) {
+      const branch = result.replace(`refs/remotes/${remote}/`, '').trim();
+      if (branch) {
+        return branch;
+      }
+    }
+  } catch {
+    // If symbolic-ref fails, try remote branch detection
+  }
+  
+  try {
+    // Get remote branches
+    const { all } = await git.branch(['-r']);
+    const remoteBranches = all
+      .filter(b => b.startsWith(`${remote}/`))
+      .map(b => b.replace(`${remote}/`, '').trim())
+      .filter(b => b && !b.includes('HEAD'));
+    
+    if (remoteBranches.length === 0) {
+      throw new Error('No remote branches found');
+    }
+    
+    // Fallback: look for common default branch names
+    const commonDefaults = ['main', 'master', 'develop', 'dev'];
+    for (const defaultName of commonDefaults) {
+      if (remoteBranches.includes(defaultName)) {
+        return defaultName;
+      }
+    }
+    
+    // Last resort: return the first branch found
+    return remoteBranches[0];
+  } catch (error) {
+    throw new Error(`Could not determine main branch: ${(error as Error).message}`);
+  }
+}
+
+function fetchRefspec(remote: string, branchName = '*'): string {
+  return `+refs/heads/${branchName}:refs/remotes/${remote}/${branchName}`;
+}
+
+// `git clone --bare` maps remote branches straight onto refs/heads and sets no fetch
+// refspec, so origin/* refs never exist. Configure it the way a normal clone would;
+// a single-branch clone only fetches that branch.
+async function configureRemoteTracking(bareGit: SimpleGit, remote: string, branchName?: string): Promise<void> {
+  await bareGit.raw(['config', `remote.${remote}.fetch`, fetchRefspec(remote, branchName)]);
+  await bareGit.fetch([remote]);
+  
+  try {
+    await bareGit.raw(['remote', 'set-head', remote, '--auto']);
+  } catch {
+    // getMainBranch falls back to the remote branch list
+  }
+  
+  await enablePushAutoSetup(bareGit);
+}
+
+// Let the first `git push` from a new branch set its upstream
+async function enablePushAutoSetup(bareGit: SimpleGit): Promise<void> {
+  await bareGit.raw(['config', 'push.autoSetupRemote', 'true']);
+}
+
+// A single-branch clone only tracks (and later fetches) branches its refspecs name
+async function addFetchRefspec(bareGit: SimpleGit, remote: string, branchName: string): Promise<void> {
+  const refspecs = (await bareGit.raw(['config', '--get-all', `remote.${remote}.fetch`]).catch(() => '')).split('\n');
+  if (!refspecs.includes(fetchRefspec(remote)) && !refspecs.includes(fetchRefspec(remote, branchName))) {
+    await bareGit.raw(['config', '--add', `remote.${remote}.fetch`, fetchRefspec(remote, branchName)]);
+  }
+}
+
+// Like a normal clone, keep only the default branch locally and have it track origin.
+// The other branches are still available as origin/* and `tm add` tracks them on demand.
+async function trackRemoteBranches(barePath: string, mainBranch: string, remote: string): Promise<void> {
+  const bareGit = simpleGit({ baseDir: barePath, binary: 'git' });
+  
+  const localBranches = (await bareGit.raw(['for-each-ref', '--format=%(refname)', 'refs/heads/']))
+    .split('\n')
+    .filter(ref => ref && ref !== `refs/heads/${mainBranch}`);
+  
+  if (localBranches.length > 0) {
+    const proc = Bun.spawn(['git', 'update-ref', '--stdin'], {
+      cwd: barePath,
+      stdin: new Blob([localBranches.map(ref => `delete ${ref}\n`).join('')]),
+      stdout: "ignore",
+      stderr: "inherit"
+    });
+    
+    if ((await proc.exited) !== 0) {
+      throw new Error('Failed to remove mirrored remote branches');
+    }
+  }
+  
+  await bareGit.raw(['symbolic-ref', 'HEAD', `refs/heads/${mainBranch}`]);
+  await bareGit.raw(['branch', `--set-upstream-to=${remote}/${mainBranch}`, mainBranch]);
+}
+
+export type CloneFilter = 'blob:none' | 'tree:0';
+
+const CLONE_FILTERS: CloneFilter[] = ['blob:none', 'tree:0'];
+
+export interface CloneOptions extends PopulateOptions {
+  // The project a fork was cloned from; detected through the hosting API when not given
+  upstream?: string;
+  // Shallow clone with this many commits of history
+  depth?: number;
+  // Partial clone: blob:none fetches file contents on demand, tree:0 directories too
+  filter?: CloneFilter;
+  // Only fetch the default branch (or defaultBranch), then and on later fetches
+  singleBranch?: boolean;
+}
+
+async function clone(repoInput: string, options: CloneOptions = {}): Promise<CloneResult> {
+  try {
+    // Only the global config applies, as the repository's tm.json does not exist yet
+    const config = await loadConfig();
+    const repoUrl = await resolveRepoUrl(repoInput, config);
+    
+    const location = parseRepoUrl(repoUrl);
+    if (!location) {
+      throw new TmError('INVALID_URL', `Invalid repository URL: ${repoUrl}`);
+    }
+    
+    const repoName = location.name;
+    const repoPath = join(workingDirectory(), repoName);
+    const barePath = join(repoPath, '.bare');
+    
+    if (await directoryExists(repoPath)) {
+      throw new TmError('DIRECTORY_EXISTS', `Directory ${repoName} already exists`);
+    }
+    
+    // Create the directory structure
+    const mkdirProc = Bun.spawn(['mkdir', '-p', barePath], {
+      cwd: workingDirectory(),
+      stdin: "inherit",
+      stdout: "inherit",
+      stderr: "inherit"
+    });
+    
+    const exitCode = await mkdirProc.exited;
+    if (exitCode !== 0) {
+      throw new Error(`Failed to create directory structure`);
+    }
+
+    // Clone directly to the target directory
+    const parentGit = simpleGit({
+      baseDir: workingDirectory(),
+      binary: 'git'
+    });
+    
+    await parentGit.clone(repoUrl, barePath, [
+      '--bare',
+      '--origin', config.remote,
+      ...(options.depth ? ['--depth', String(options.depth)] : []),
+      ...(options.filter ? [`--filter=${options.filter}`] : []),
+      // --depth alone would imply --single-branch
+      ...(options.singleBranch ? ['--single-branch'] : options.depth ? ['--no-single-branch'] : []),
+      ...(options.singleBranch && config.defaultBranch ? ['--branch', config.defaultBranch] : [])
+    ]);
+    
+    const bareGit = simpleGit({
+      baseDir: barePath,
+      binary: 'git'
+    });
+    
+    const singleBranch = options.singleBranch ? await getHeadBranch(bareGit) : undefined;
+    await configureRemoteTracking(bareGit, config.remote, singleBranch);
+    
+    const repoContext: RepoContext = { barePath, root: repoPath, config };
+    
+    // The hosting API knows the default branch even when the remote's HEAD is unusual, and which repository this is a fork of
+    const provider = await getProvider(config, location.host).catch(() => null);
+    const info = await provider?.getRepository(location.path).catch(() => null);
+    const mainBranch = config.defaultBranch ?? info?.defaultBranch ?? await getDefaultBranch(repoContext, bareGit);
+    
+    let upstreamUrl = options.upstream ? await resolveRepoUrl(options.upstream, config) : null;
+    if (!upstreamUrl && info?.parent && location.host) {
+      // Reach the parent the same way as the fork
+      upstreamUrl = buildRepoUrl(location.host, info.parent, /^https?:\/\//.test(repoUrl) ? 'https' : 'ssh');
+    }
+    if (upstreamUrl) {
+      try {
+        await addUpstreamRemote(bareGit, config, upstreamUrl);
+      } catch (error) {
+        warn(`Warning: could not add ${upstreamUrl} as ${config.upstreamRemote}: ${(error as Error).message.trim()}`);
+        await bareGit.removeRemote(config.upstreamRemote).catch(() => {});
+        upstreamUrl = null;
+      }
+    }
+    
+    await trackRemoteBranches(barePath, mainBranch, config.remote);
+    
+    const mainPath = resolveWorktreePath(repoContext, mainBranch);
+
+    const env = await allocateEnv(repoContext, mainBranch, mainPath);
+    
+    // simple-git doesn't have worktree methods, need to use raw for worktree
+    await bareGit.raw(['worktree', 'add', mainPath, mainBranch]);
+    await populateWorktree(repoContext, mainPath, options);
+    await setUpWorktreeEnv(repoContext, env);
+    
+    await Bun.write(join(repoPath, 'post-hook.json'), JSON.stringify(emptyHookConfig(), null, 2));
+    
+    log(`Cloned ${repoInput} (${repoUrl}) into ${repoName}/ with worktree structure`);
+    log(`Main branch '${mainBranch}' created at ${mainPath}`);
+    
+    await runHooks('post-create', {
+      repoRoot: repoPath,
+      branch: mainBranch,
+      worktreePath: mainPath,
+      baseBranch: mainBranch
+    });
+    
+    return { url: repoUrl, upstream: upstreamUrl, root: repoPath, branch: mainBranch, path: mainPath };
+  } catch (error) {
+    throw wrapError(error, 'CLONE_FAILED', 'Clone failed');
+  }
+}
+
+async function directoryExists(path: string): Promise<boolean> {
+  try {
+    const stats = await fs.lstat(path);
+    return stats.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await fs.lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The worktree new worktrees carry files from: --like <branch>, else the default branch's worktree
+async function findCarrySource(repo: RepoContext, like?: string): Promise<string | undefined> {
+  const worktrees = await listRegisteredWorktrees(repo);
+  
+  if (like) {
+    const source = findWorktree(repo, worktrees, like);
+    if (!source || !source.exists) {
+      throw new WorktreeNotFoundError(`Worktree '${like}' does not exist`);
+    }
+    return source.path;
+  }
+  
+  if (!repo.config.carry.copy?.length && !repo.config.carry.symlink?.length) {
+    return undefined;
+  }
+  
+  return findDefaultWorktree(repo, worktrees);
+}
+
+async function findDefaultWorktree(repo: RepoContext, worktrees: WorktreeInfo[]): Promise<string | undefined> {
+  try {
+    const defaultBranch = await getDefaultBranch(repo, simpleGit({ baseDir: repo.barePath, binary: 'git' }));
+    return worktrees.find(wt => wt.branch === defaultBranch && wt.exists)?.path;
+  } catch {
+    return undefined;
+  }
+}
+
+// Copies or symlinks matching files from the source worktree, never overwriting anything already there
+async function carryFiles(carry: CarryConfig, sourcePath: string, targetPath: string): Promise<string[]> {
+  const carried: string[] = [];
+  const modes = [['copy', carry.copy ?? []], ['symlink', carry.symlink ?? []]] as const;
+  
+  for (const [mode, patterns] of modes) {
+    for (const pattern of patterns) {
+      const glob = new Bun.Glob(pattern);
+      for await (const match of glob.scan({ cwd: sourcePath, dot: true, onlyFiles: false, followSymlinks: false })) {
+        if (match === '.git' || carried.some(path => match.startsWith(`${path}/`))) {
+          continue;
+        }
+        
+        const from = join(sourcePath, match);
+        const to = join(targetPath, match);
+        if (await pathExists(to)) {
+          continue;
+        }
+        
+        await fs.mkdir(dirname(to), { recursive: true });
+        if (mode === 'copy') {
+          await fs.cp(from, to, { recursive: true, force: false });
+        } else {
+          // Link to the real location so carrying from a worktree that itself links doesn't chain
+          await fs.symlink(relative(dirname(to), await fs.realpath(from)), to);
+        }
+        carried.push(match);
+      }
+    }
+  }
+  
+  return carried;
+}
+
+// Adds worktree-relative paths to .bare/info/exclude, which every worktree shares
+async function excludeFromGit(repo: RepoContext, paths: string[]): Promise<void> {
+  const excludePath = join(repo.barePath, 'info', 'exclude');
+  const exclude = await Bun.file(excludePath).exists() ? await Bun.file(excludePath).text() : '';
+  const existing = exclude.split('\n');
+  const added = paths.map(path => `/${path}`).filter(pattern => !existing.includes(pattern));
+  if (added.length > 0) {
+    await fs.mkdir(dirname(excludePath), { recursive: true });
+    await Bun.write(excludePath, `${exclude}${exclude && !exclude.endsWith('\n') ? '\n' : ''}${added.join('\n')}\n`);
+  }
+}
+
+async function carryIntoWorktree(repo: RepoContext, sourcePath: string | undefined, targetPath: string): Promise<string[]> {
+  if (!sourcePath || sourcePath === targetPath) {
+    return [];
+  }
+  
+  const carried = await carryFiles(repo.config.carry, sourcePath, targetPath);
+  if (carried.length > 0) {
+    // Carried files are local setup, not changes: keep them out of `git status`, list and rm's checks
+    await excludeFromGit(repo, carried);
+    log(`Carried ${carried.length} file(s) from ${sourcePath}: ${carried.join(', ')}`);
+  }
+  return carried;
+}
+
+interface EnvAllocation {
+  branch: string;
+  index: number;
+  values: Record<string, string>;
+}
+
+export interface EnvResult {
+  branch: string;
+  path: string;
+  // The generated env file, when any values are configured
+  file: string | null;
+  // Everything exported to the worktree, TM_WORKTREE_INDEX included
+  values: Record<string, string>;
+}
+
+function envRegistryPath(barePath: string): string {
+  return join(barePath, 'tm-env.json');
+}
+
+// Allocations keyed by worktree path relative to the repository root
+async function readEnvRegistry(barePath: string): Promise<Record<string, EnvAllocation>> {
+  try {
+    return JSON.parse(await fs.readFile(envRegistryPath(barePath), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+async function writeEnvRegistry(barePath: string, registry: Record<string, EnvAllocation>): Promise<void> {
+  await Bun.write(envRegistryPath(barePath), JSON.stringify(registry, null, 2));
+}
+
+function exportedEnv(allocation: EnvAllocation): Record<string, string> {
+  return { TM_WORKTREE_INDEX: String(allocation.index), ...allocation.values };
+}
+
+// Gives the worktree whatever it is missing from the configured pools, keeping what it already holds
+async function allocateEnv(repo: RepoContext, branchName: string, worktreePath: string): Promise<EnvResult> {
+  const { ports = {}, values: templates = {} } = repo.config.env;
+  const registry = await readEnvRegistry(repo.barePath);
+  const key = relative(repo.root, worktreePath);
+  const others = Object.entries(registry).filter(([path]) => path !== key).map(([, allocation]) => allocation);
+  
+  let index = 0;
+  while (others.some(allocation => allocation.index === index)) {
+    index++;
+  }
+  const current = registry[key] ?? { branch: branchName, index, values: {} };
+  
+  // Values of variables no longer configured are dropped
+  const allocation: EnvAllocation = {
+    branch: branchName,
+    index: current.index,
+    values: Object.fromEntries(Object.entries(current.values).filter(([name]) => name in ports || name in templates))
+  };
+  
+  const taken = new Set([...others, allocation].flatMap(other =>
+    Object.keys(ports).map(name => other.values[name]).filter(Boolean)));
+  for (const [name, [first, last]] of Object.entries(ports)) {
+    if (allocation.values[name]) {
+      continue;
+    }
+    let port = first;
+    while (port <= last && taken.has(String(port))) {
+      port++;
+    }
+    if (port > last) {
+      throw new TmError('ENV_POOL_EXHAUSTED', `No free port left for ${name} in ${first}-${last}`);
+    }
+    allocation.values[name] = String(port);
+    taken.add(String(port));
+  }
+  
+  for (const [name, template] of Object.entries(templates)) {
+    allocation.values[name] ??= template
+      .replace(/\{repo\}/g, basename(repo.root))
+      .replace(/\{branch_slug\}/g, slugifyBranch(branchName))
+      .replace(/\{branch\}/g, branchName)
+      .replace(/\{index\}/g, String(allocation.index));
+  }
+  
+  registry[key] = allocation;
+  await writeEnvRegistry(repo.barePath, registry);
+  
+  const configured = Object.keys(ports).length + Object.keys(templates).length > 0;
+  return {
+    branch: branchName,
+    path: worktreePath,
+    file: configured ? join(worktreePath, repo.config.env.file ?? '.env.worktree') : null,
+    values: exportedEnv(allocation)
+  };
+}
+
+async function writeEnvFile(repo: RepoContext, env: EnvResult): Promise<void> {
+  if (!env.file) {
+    return;
+  }
+  const lines = Object.entries(env.values).map(([key, value]) => `${key}=${value}`);
+  await Bun.write(env.file, `# Generated by tm for this worktree; \`tm env\` rewrites it\n${lines.join('\n')}\n`);
+  
+  // Keep the file out of `git status` in every worktree
+  await excludeFromGit(repo, [relative(env.path, env.file)]);
+}
+
+async function releaseEnv(repo: RepoContext, worktreePath: string): Promise<void> {
+  const registry = await readEnvRegistry(repo.barePath);
+  const key = relative(repo.root, worktreePath);
+  if (key in registry) {
+    delete registry[key];
+    await writeEnvRegistry(repo.barePath, registry);
+  }
+}
+
+// Writes a new worktree's env file once the worktree exists
+async function setUpWorktreeEnv(repo: RepoContext, env: EnvResult): Promise<void> {
+  await writeEnvFile(repo, env);
+  if (env.file) {
+    log(`Wrote ${relative(env.path, env.file)}: ${Object.entries(env.values).map(([key, value]) => `${key}=${value}`).join(' ')}`);
+  }
+}
+
+// Re-keys a moved worktree's allocation; the values stay, so its ports and databases keep working
+async function moveEnv(repo: RepoContext, oldPath: string, branchName: string, newPath: string): Promise<void> {
+  const registry = await readEnvRegistry(repo.barePath);
+  const allocation = registry[relative(repo.root, oldPath)];
+  if (!allocation) {
+    return;
+  }
+  delete registry[relative(repo.root, oldPath)];
+  registry[relative(repo.root, newPath)] = { ...allocation, branch: branchName };
+  await writeEnvRegistry(repo.barePath, registry);
+}
+
+// Frees the values reserved for a worktree whose creation failed before it existed
+async function releaseUnusedEnv(repo: RepoContext, worktreePath: string): Promise<void> {
+  if (!(await directoryExists(worktreePath))) {
+    await releaseEnv(repo, worktreePath).catch(() => {});
+  }
+}
+
+// The named worktree's values, or the current worktree's; fills in any the config added since
+async function showEnv(name?: string): Promise<EnvResult> {
+  const repo = await requireRepo();
+  const worktree = findWorktreeOrCurrent(repo, await listRegisteredWorktrees(repo), name);
+  if (!worktree || !worktree.exists) {
+    throw new WorktreeNotFoundError(name ? `Worktree ${name} does not exist` : 'Not inside a worktree; name one');
+  }
+  
+  try {
+    const result = await allocateEnv(repo, worktree.branch, worktree.path);
+    await writeEnvFile(repo, result);
+    for (const [key, value] of Object.entries(result.values)) {
+      log(`${key}=${value}`);
+    }
+    return result;
+  } catch (error) {
+    throw wrapError(error, 'ENV_FAILED', 'Allocating environment failed');
+  }
+}
+
+const SPARSE_CONFIG_KEY = 'tmSparse';
+
+export interface SparseResult {
+  branch: string;
+  path: string;
+  // null once the worktree checks out everything again
+  profile: string | null;
+  directories: string[];
+}
+
+function getSparseDirectories(repo: RepoContext, profile: string): string[] {
+  const directories = repo.config.sparse[profile];
+  if (!directories) {
+    throw new TmError('UNKNOWN_SPARSE_PROFILE', `No sparse profile '${profile}'; define it under "sparse" in tm.json`);
+  }
+  return directories;
+}
+
+// Sparse checkout is per worktree; the profile is recorded as branch.<name>.tmSparse for `list`
+async function applySparseProfile(repo: RepoContext, bareGit: SimpleGit, worktreePath: string, branchName: string, profile: string): Promise<void> {
+  const directories = getSparseDirectories(repo, profile);
+  await simpleGit({ baseDir: worktreePath, binary: 'git' }).raw(['sparse-checkout', 'set', '--cone', ...directories]);
+  if (branchName) {
+    await bareGit.raw(['config', `branch.${branchName}.${SPARSE_CONFIG_KEY}`, profile]);
+  }
+}
+
+// Checks the branch out at the path; with a sparse profile, only the profile's directories
+async function checkoutWorktree(repo: RepoContext, bareGit: SimpleGit, worktreePath: string, branchName: string, profile?: string): Promise<void> {
+  if (!profile) {
+    await bareGit.raw(['worktree', 'add', worktreePath, branchName]);
+    return;
+  }
+  
+  // Never write the files outside the profile in the first place
+  await bareGit.raw(['worktree', 'add', '--no-checkout', worktreePath, branchName]);
+  await applySparseProfile(repo, bareGit, worktreePath, branchName, profile);
+  await simpleGit({ baseDir: worktreePath, binary: 'git' }).raw(['checkout']);
+}
+
+// Switches a worktree to another profile, or back to a full checkout with a null profile
+async function setSparseProfile(profile: string | null, name?: string): Promise<SparseResult> {
+  const repo = await requireRepo();
+  const worktree = findWorktreeOrCurrent(repo, await listRegisteredWorktrees(repo), name);
+  if (!worktree || !worktree.exists) {
+    throw new WorktreeNotFoundError(name ? `Worktree ${name} does not exist` : 'Not inside a worktree; name one');
+  }
+  const directories = profile ? getSparseDirectories(repo, profile) : [];
+  
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    
+    if (profile) {
+      await applySparseProfile(repo, bareGit, worktree.path, worktree.branch, profile);
+      log(`${worktree.branch || worktree.path} now checks out ${directories.join(', ')} (${profile})`);
+    } else {
+      await simpleGit({ baseDir: worktree.path, binary: 'git' }).raw(['sparse-checkout', 'disable']);
+      if (worktree.branch) {
+        await bareGit.raw(['config', '--unset', `branch.${worktree.branch}.${SPARSE_CONFIG_KEY}`]).catch(() => '');
+      }
+      log(`${worktree.branch || worktree.path} now checks out everything`);
+    }
+    
+    return { branch: worktree.branch, path: worktree.path, profile, directories };
+  } catch (error) {
+    throw wrapError(error, 'SPARSE_FAILED', 'Changing the sparse checkout failed');
+  }
+}
+
+export interface PopulateOptions {
+  // false skips the submodules and Git LFS files (default: the submodules and lfs config)
+  submodules?: boolean;
+  lfs?: boolean;
+}
+
+// `worktree add` leaves submodule directories empty and Git LFS files as pointers
+async function populateWorktree(repo: RepoContext, worktreePath: string, options: PopulateOptions = {}): Promise<void> {
+  if (options.submodules !== false && repo.config.submodules !== 'skip' && await hasSubmodules(worktreePath)) {
+    await updateSubmodules(repo, worktreePath);
+  }
+  if (options.lfs !== false && repo.config.lfs && await usesLfs(worktreePath)) {
+    await pullLfsFiles(worktreePath);
+  }
+}
+
+async function hasSubmodules(worktreePath: string): Promise<boolean> {
+  return pathExists(join(worktreePath, '.gitmodules'));
+}
+
+async function updateSubmodules(repo: RepoContext, worktreePath: string): Promise<void> {
+  const referencePath = repo.config.submodules === 'reference'
+    ? await findDefaultWorktree(repo, await listRegisteredWorktrees(repo))
+    : undefined;
+  
+  if (referencePath && referencePath !== worktreePath) {
+    const paths = (await runGit(worktreePath, ['config', '--file', '.gitmodules', '--get-regexp', '^submodule\\..*\\.path$'])).output
+      .split('\n')
+      .filter(Boolean)
+      .map(line => line.slice(line.indexOf(' ') + 1));
+    
+    for (const path of paths) {
+      const reference = join(referencePath, path);
+      if (!(await pathExists(join(reference, '.git')))) {
+        continue;
+      }
+      // On failure the plain update below clones it instead
+      if ((await runGit(worktreePath, ['submodule', 'update', '--init', '--reference', reference, '--', path])).code === 0) {
+        await dissociate(join(worktreePath, path));
+      }
+    }
+  }
+  
+  // Submodules without a reference, and the submodules of submodules
+  const { code, output } = await runGit(worktreePath, ['submodule', 'update', '--init', '--recursive']);
+  if (code !== 0) {
+    warn(`Warning: updating submodules failed; run 'git submodule update --init --recursive' in ${worktreePath}\n${output}`);
+    return;
+  }
+  log(`Checked out submodules${referencePath ? ` (objects from ${referencePath})` : ''}`);
+}
+
+// Copies the borrowed objects in, as `git clone --dissociate` does, so removing the
+// default branch's worktree cannot break the submodule
+async function dissociate(submodulePath: string): Promise<void> {
+  if ((await runGit(submodulePath, ['repack', '-a', '-d', '-q'])).code !== 0) {
+    return;
+  }
+  const alternates = (await runGit(submodulePath, ['rev-parse', '--git-path', 'objects/info/alternates'])).output;
+  await fs.rm(resolve(submodulePath, alternates), { force: true });
+}
+
+async function usesLfs(worktreePath: string): Promise<boolean> {
+  return gitSucceeds(worktreePath, ['grep', '--quiet', '--fixed-strings', 'filter=lfs', '--', ':(glob)**/.gitattributes']);
+}
+
+async function pullLfsFiles(worktreePath: string): Promise<void> {
+  if (!(await gitSucceeds(worktreePath, ['lfs', 'version']))) {
+    warn('Warning: this repository uses Git LFS, but git-lfs is not installed; LFS files are left as pointers');
+    return;
+  }
+  const { code, output } = await runGit(worktreePath, ['lfs', 'pull']);
+  if (code !== 0) {
+    warn(`Warning: fetching Git LFS files failed; run 'git lfs pull' in ${worktreePath}\n${output}`);
+    return;
+  }
+  log('Fetched Git LFS files');
+}
+
+export interface BranchOptions extends PopulateOptions {
+  from?: string;
+  track?: boolean;
+  like?: string;
+  // Sparse-checkout profile from the sparse config
+  sparse?: string;
+}
+
+async function branch(name: string, options: BranchOptions = {}): Promise<CreateWorktreeResult> {
+  const repo = await requireRepo();
+  const branchName = applyBranchPrefix(repo.config, name);
+  const branchPath = resolveWorktreePath(repo, branchName);
+  
+  const existing = (await listRegisteredWorktrees(repo)).find(wt => wt.branch === branchName);
+  if (existing || await directoryExists(branchPath)) {
+    throw new WorktreeExistsError(`Worktree ${branchName} already exists${existing ? ` at ${existing.path}` : ''}`);
+  }
+  
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    
+    const base = await resolveStartPoint(repo, bareGit, options.from);
+    const carrySource = await findCarrySource(repo, options.like);
+    if (options.sparse) {
+      // Fails on an unknown profile before anything is created
+      getSparseDirectories(repo, options.sparse);
+    }
+    
+    const hookContext: HookContext = {
+      repoRoot: repo.root,
+      branch: branchName,
+      worktreePath: branchPath,
+      baseBranch: base
+    };
+    
+    // Reserved before the pre-create hooks so they can use the values too
+    const env = await allocateEnv(repo, branchName, branchPath);
+    await runHooks('pre-create', hookContext);
+
+    // Create branch in the bare repo (not checkout, just branch). Without --track the
+    // upstream is left for the first push to set, rather than pointing at the base.
+    await bareGit.raw(['branch', options.track ? '--track' : '--no-track', branchName, base]);
+    await bareGit.raw(['config', `branch.${branchName}.${BASE_CONFIG_KEY}`, base]);
+    await bareGit.raw(['config', `branch.${branchName}.${START_CONFIG_KEY}`, (await bareGit.revparse([branchName])).trim()]);
+    
+    // Create worktree for the new branch
+    await checkoutWorktree(repo, bareGit, branchPath, branchName, options.sparse);
+    await populateWorktree(repo, branchPath, options);
+    await setUpWorktreeEnv(repo, env);
+    
+    log(`Created branch '${branchName}' from ${base} and worktree at ${branchPath}`);
+    await recordOperation(repo, 'branch', [
+      { action: 'created', branch: branchName, path: branchPath, before: null, after: await branchTip(repo, branchName) }
+    ]);
+    
+    const carried = await carryIntoWorktree(repo, carrySource, branchPath);
+    
+    await runHooks('post-create', hookContext);
+    
+    return { branch: branchName, path: branchPath, baseBranch: base, carried };
+  } catch (error) {
+    await releaseUnusedEnv(repo, branchPath);
+    throw wrapError(error, 'BRANCH_FAILED', 'Branch creation failed');
+  }
+}
+
+// Fetches the start point fresh when it is a remote branch; defaults to the remote's default branch
+async function resolveStartPoint(repo: RepoContext, bareGit: SimpleGit, from?: string): Promise<string> {
+  let ref = from;
+  if (!ref) {
+    const base = await getBaseRemote(repo, bareGit);
+    ref = `${base.remote}/${base.defaultBranch}`;
+  }
+  
+  const remote = (await bareGit.getRemotes()).map(r => r.name).find(name => ref.startsWith(`${name}/`));
+  if (remote) {
+    try {
+      await bareGit.fetch([remote, ref.slice(remote.length + 1)]);
+    } catch (error) {
+      warn(`Warning: could not fetch ${ref}, using the local copy: ${(error as Error).message.trim()}`);
+    }
+  }
+  
+  try {
+    await bareGit.raw(['rev-parse', '--verify', `${ref}^{commit}`]);
+  } catch {
+    if (from) {
+      throw new TmError('REF_NOT_FOUND', `Cannot start a branch from '${from}': no such branch, tag or commit`);
+    }
+    // Never fetched; the local default branch is the next best thing
+    return getDefaultBranch(repo, bareGit);
+  }
+  
+  return ref;
+}
+
+// Reasons removing the worktree (and with deleteBranch, its branch) would lose work
+async function findRemoveRisks(repo: RepoContext, bareGit: SimpleGit, wt: WorktreeInfo, options: RemoveOptions): Promise<string[]> {
+  const risks: string[] = [];
+  const branchName = wt.branch;
+  
+  if (isInsidePath(workingDirectory(), wt.path)) {
+    risks.push('it is the current directory; cd out of it first');
+  }
+  
+  if (wt.locked) {
+    risks.push(`it is ${describeLock(wt)}`);
+  }
+  
+  const changes = (await runGit(wt.path, ['status', '--porcelain'])).output.split('\n').filter(Boolean);
+  if (changes.length > 0) {
+    risks.push(`${changes.length} uncommitted change(s)`);
+  }
+  
+  // Submodule repositories live in the worktree's git directory and are removed with it
+  if (await hasSubmodules(wt.path)) {
+    const unpushed = (await runGit(wt.path, ['submodule', 'foreach', '--quiet', '--recursive', 'git rev-list --count HEAD --not --remotes']))
+      .output.split('\n').reduce((sum, line) => sum + (Number(line) || 0), 0);
+    if (unpushed > 0) {
+      risks.push(`${unpushed} commit(s) in submodules are not on any remote`);
+    }
+  }
+  
+  if (!branchName) {
+    return risks;
+  }
+  
+  // Stashes are shared by all worktrees; these are the ones made on this branch
+  const stashes = (await runGit(wt.path, ['stash', 'list', '--format=%gs'])).output.split('\n')
+    .filter(subject => subject.startsWith(`WIP on ${branchName}:`) || subject.startsWith(`On ${branchName}:`));
+  if (stashes.length > 0) {
+    risks.push(`${stashes.length} stash(es) made on ${branchName}`);
+  }
+  
+  if (options.deleteBranch && !options.merged) {
+    // Without a base or default branch nothing counts as merged
+    const target = await getMergeTarget(repo, bareGit, branchName);
+    const merged = !!target && await gitSucceeds(repo.barePath, ['merge-base', '--is-ancestor', branchName, target]);
+    
+    if (!merged) {
+      // Pull request heads fetched by `tm pr` count as pushed
+      const unpushed = Number((await bareGit.raw(['rev-list', '--count', branchName, '--not', '--remotes', '--glob=refs/tm/*'])).trim());
+      if (unpushed > 0) {
+        risks.push(`${unpushed} commit(s) on ${branchName} are not on any remote`);
+      }
+      if (options.requireMerged) {
+        risks.push(`${branchName} is not merged into ${target ?? 'the default branch'} (-D deletes it once pushed)`);
+      }
+    }
+  }
+  
+  return risks;
+}
+
+// Stashes uncommitted and untracked changes, for `tm undo`; the stash commit, or null when there were none
+async function stashChanges(worktreePath: string, message: string): Promise<string | null> {
+  if ((await runGit(worktreePath, ['status', '--porcelain'])).output === '') {
+    return null;
+  }
+  const { code, output } = await runGit(worktreePath, ['stash', 'push', '--include-untracked', '--message', message]);
+  if (code !== 0) {
+    warn(`Warning: could not stash the uncommitted changes in ${worktreePath}, removing it anyway: ${output}`);
+    return null;
+  }
+  return (await runGit(worktreePath, ['rev-parse', 'refs/stash'])).output;
+}
+
+async function remove(name: string, options: RemoveOptions = {}, command = 'rm'): Promise<RemoveResult> {
+  const repo = await requireRepo();
+  const worktree = findWorktree(repo, await listRegisteredWorktrees(repo), name);
+  
+  if (!worktree) {
+    throw new WorktreeNotFoundError(`Worktree ${name} does not exist`);
+  }
+  if (!worktree.exists) {
+    throw new WorktreeNotFoundError(`Worktree ${name} is orphaned (${worktree.path} is missing); use 'tm prune'`);
+  }
+  
+  const branchName = worktree.branch;
+  const branchPath = worktree.path;
+  
+  const bareGit = simpleGit({
+    baseDir: repo.barePath,
+    binary: 'git'
+  });
+  
+  if (!options.force) {
+    const risks = await findRemoveRisks(repo, bareGit, worktree, options);
+    if (risks.length > 0) {
+      throw new UnsafeRemoveError([
+        `Refusing to remove ${branchName || branchPath}:`,
+        ...risks.map(risk => `  - ${risk}`),
+        'Use --force to remove it anyway'
+      ].join('\n'), risks);
+    }
+  }
+  
+  try {
+    const hookContext: HookContext = {
+      repoRoot: repo.root,
+      branch: branchName,
+      worktreePath: branchPath,
+      baseBranch: await resolveBaseBranch(repo, bareGit, branchName)
+    };
+    
+    // Runs while the directory still exists, so cleanup scripts can use it
+    await runHooks('pre-remove', hookContext);
+
+    // simple-git doesn't have worktree methods, need to use raw for worktree
+    // A locked worktree needs --force twice. git refuses worktrees with submodules without
+    // --force; the checks above already cover what it would check.
+    const force = options.force
+      ? (worktree.locked ? ['--force', '--force'] : ['--force'])
+      : (await hasSubmodules(branchPath) ? ['--force'] : []);
+    const saved = options.force ? await stashChanges(branchPath, `tm ${command} ${branchName || branchPath}`) : null;
+    const branchConfig = options.deleteBranch && branchName ? await getBranchConfig(repo, branchName) : {};
+    await bareGit.raw(['worktree', 'remove', ...force, branchPath]);
+    await removeEmptyParents(branchPath, repo.root);
+    log(`Removed worktree at ${branchPath}`);
+    
+    let branchDeleted = false;
+    try {
+      if (options.deleteBranch && branchName) {
+        await bareGit.branch(['-D', branchName]);
+        branchDeleted = true;
+        log(`Deleted branch '${branchName}'`);
+      }
+    } finally {
+      // Recorded even when deleting the branch fails, as the worktree is gone either way
+      await recordOperation(repo, command, [{
+        action: 'removed',
+        branch: branchName,
+        path: branchPath,
+        before: worktree.head,
+        after: branchDeleted ? null : worktree.head,
+        ...(saved ? { saved } : {}),
+        ...(branchDeleted ? { config: branchConfig } : {})
+      }]);
+    }
+    
+    await runHooks('post-remove', hookContext);
+    await releaseEnv(repo, branchPath);
+    
+    return { branch: branchName, path: branchPath, branchDeleted };
+  } catch (error) {
+    throw wrapError(error, 'REMOVE_FAILED', 'Remove failed');
+  }
+}
+
+// Removes each worktree in turn, reporting failures instead of stopping at the first
+async function removeMany(names: string[], options: RemoveOptions = {}): Promise<BatchResult> {
+  const results: ItemResult[] = [];
+  
+  for (const name of names) {
+    try {
+      const removed = await remove(name, options);
+      results.push({ branch: removed.branch, path: removed.path, status: 'removed', message: null });
+    } catch (error) {
+      warn((error as Error).message);
+      results.push({ branch: name, path: name, status: 'failed', message: (error as Error).message });
+    }
+  }
+  
+  return { results };
+}
+
+export interface MoveOptions {
+  // Also rename the branch on the remote and point the upstream at it
+  remote?: boolean;
+}
+
+export interface MoveResult {
+  branch: string;
+  path: string;
+  previousBranch: string;
+  previousPath: string;
+  remoteRenamed: boolean;
+}
+
+// Renames the branch and moves its worktree to the path the new name maps to
+async function move(name: string, newName: string, options: MoveOptions = {}, command = 'mv'): Promise<MoveResult> {
+  const repo = await requireRepo();
+  const worktrees = await listRegisteredWorktrees(repo);
+  const worktree = findWorktree(repo, worktrees, name);
+  
+  if (!worktree) {
+    throw new WorktreeNotFoundError(`Worktree ${name} does not exist`);
+  }
+  if (!worktree.exists) {
+    throw new WorktreeNotFoundError(`Worktree ${name} is orphaned (${worktree.path} is missing); use 'tm prune'`);
+  }
+  if (!worktree.branch) {
+    throw new TmError('DETACHED_HEAD', `Worktree ${name} has no branch to rename`);
+  }
+  
+  const oldBranch = worktree.branch;
+  const oldPath = worktree.path;
+  const newBranch = applyBranchPrefix(repo.config, newName);
+  const newPath = resolveWorktreePath(repo, newBranch);
+  
+  const bareGit = simpleGit({
+    baseDir: repo.barePath,
+    binary: 'git'
+  });
+  
+  if (!(await gitSucceeds(repo.barePath, ['check-ref-format', '--branch', newBranch]))) {
+    throw new TmError('INVALID_BRANCH_NAME', `'${newBranch}' is not a valid branch name`);
+  }
+  if (await gitSucceeds(repo.barePath, ['show-ref', '--verify', '--quiet', `refs/heads/${newBranch}`])) {
+    throw new TmError('BRANCH_EXISTS', `Branch '${newBranch}' already exists`);
+  }
+  if (await directoryExists(newPath)) {
+    throw new WorktreeExistsError(`${newPath} already exists`);
+  }
+  
+  // Where the remote branch is, if --remote should rename it
+  const upstreamRemote = (await bareGit.raw(['config', `branch.${oldBranch}.remote`]).catch(() => '')).trim();
+  const upstreamMerge = (await bareGit.raw(['config', `branch.${oldBranch}.merge`]).catch(() => '')).trim();
+  const oldRemoteBranch = upstreamMerge.replace(/^refs\/heads\//, '');
+  const renameRemote = !!options.remote && !!upstreamRemote && upstreamRemote !== '.' && !!oldRemoteBranch;
+  if (options.remote && !renameRemote) {
+    warn(`Warning: ${oldBranch} has no upstream branch to rename`);
+  }
+  if (renameRemote && await gitSucceeds(repo.barePath, ['show-ref', '--verify', '--quiet', `refs/remotes/${upstreamRemote}/${newBranch}`])) {
+    throw new TmError('BRANCH_EXISTS', `Branch '${newBranch}' already exists on ${upstreamRemote}`);
+  }
+  
+  try {
+    // Renames the branch.<name>.* config (tmBase, tmPullRequest, upstream) along with it
+    await bareGit.raw(['branch', '-m', oldBranch, newBranch]);
+    
+    try {
+      await fs.mkdir(dirname(newPath), { recursive: true });
+      await bareGit.raw(['worktree', 'move', oldPath, newPath]);
+    } catch (error) {
+      await bareGit.raw(['branch', '-m', newBranch, oldBranch]).catch(() => {});
+      await removeEmptyParents(newPath, repo.root);
+      throw error;
+    }
+    await removeEmptyParents(oldPath, repo.root);
+    log(`Renamed '${oldBranch}' to '${newBranch}' and moved its worktree to ${newPath}`);
+    
+    await moveEnv(repo, oldPath, newBranch, newPath);
+    const tip = await branchTip(repo, newBranch);
+    await recordOperation(repo, command, [
+      { action: 'moved', branch: newBranch, path: newPath, before: tip, after: tip, previousBranch: oldBranch, previousPath: oldPath }
+    ]);
+    
+    if (renameRemote) {
+      // Push what the remote has, not the local branch, so unpushed commits stay unpushed
+      await bareGit.raw(['push', upstreamRemote, `refs/remotes/${upstreamRemote}/${oldRemoteBranch}:refs/heads/${newBranch}`]);
+      await bareGit.raw(['branch', `--set-upstream-to=${upstreamRemote}/${newBranch}`, newBranch]);
+      await bareGit.raw(['push', upstreamRemote, '--delete', oldRemoteBranch]);
+      log(`Renamed ${upstreamRemote}/${oldRemoteBranch} to ${upstreamRemote}/${newBranch}`);
+    } else if (upstreamRemote && upstreamRemote !== '.' && oldRemoteBranch) {
+      log(`It still tracks ${upstreamRemote}/${oldRemoteBranch}; use --remote to rename that too`);
+    }
+    
+    await runHooks('post-move', {
+      repoRoot: repo.root,
+      branch: newBranch,
+      worktreePath: newPath,
+      baseBranch: await resolveBaseBranch(repo, bareGit, newBranch),
+      previousBranch: oldBranch,
+      previousWorktreePath: oldPath
+    });
+    
+    return { branch: newBranch, path: newPath, previousBranch: oldBranch, previousPath: oldPath, remoteRenamed: renameRemote };
+  } catch (error) {
+    throw wrapError(error, 'MOVE_FAILED', 'Move failed');
+  }
+}
+
+export interface LockResult {
+  branch: string;
+  path: string;
+  locked: boolean;
+  reason: string | null;
+}
+
+// git's own worktree lock, which `git worktree prune` and `remove` also respect
+async function lockWorktree(name: string, reason?: string): Promise<LockResult> {
+  const repo = await requireRepo();
+  const worktree = findWorktree(repo, await listRegisteredWorktrees(repo), name);
+  if (!worktree) {
+    throw new WorktreeNotFoundError(`Worktree ${name} does not exist`);
+  }
+  
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    
+    // Relocking replaces the reason
+    if (worktree.locked) {
+      await bareGit.raw(['worktree', 'unlock', worktree.path]);
+    }
+    await bareGit.raw(['worktree', 'lock', ...(reason ? ['--reason', reason] : []), worktree.path]);
+    log(`Locked ${worktree.branch || worktree.path}${reason ? `: ${reason}` : ''}`);
+    
+    return { branch: worktree.branch, path: worktree.path, locked: true, reason: reason ?? null };
+  } catch (error) {
+    throw wrapError(error, 'LOCK_FAILED', 'Lock failed');
+  }
+}
+
+async function unlockWorktree(name: string): Promise<LockResult> {
+  const repo = await requireRepo();
+  const worktree = findWorktree(repo, await listRegisteredWorktrees(repo), name);
+  if (!worktree) {
+    throw new WorktreeNotFoundError(`Worktree ${name} does not exist`);
+  }
+  if (!worktree.locked) {
+    throw new TmError('NOT_LOCKED', `Worktree ${name} is not locked`);
+  }
+  
+  try {
+    await simpleGit({ baseDir: repo.barePath, binary: 'git' }).raw(['worktree', 'unlock', worktree.path]);
+    log(`Unlocked ${worktree.branch || worktree.path}`);
+    
+    return { branch: worktree.branch, path: worktree.path, locked: false, reason: null };
+  } catch (error) {
+    throw wrapError(error, 'UNLOCK_FAILED', 'Unlock failed');
+  }
+}
+
+export interface WorktreeInfo {
+  path: string;
+  branch: string;
+  head: string | null;
+  isBare: boolean;
+  isDetached: boolean;
+  exists: boolean;
+  locked: boolean;
+  lockReason: string | null;
+}
+
+export interface WorktreeStatus extends WorktreeInfo {
+  isCurrent: boolean;
+  modified: number | null;
+  outdatedSubmodules: number | null;
+  ahead: number;
+  behind: number;
+  upstream: string | null;
+  base: string | null;
+  // Sparse-checkout profile, if the worktree only checks out part of the tree
+  sparse: string | null;
+}
+
+async function getBarePath(): Promise<string | null> {
+  const currentPath = workingDirectory();
+  
+  // Inside a worktree git knows the shared repository, however deeply nested or wherever the worktree lives
+  try {
+    const commonDir = (await simpleGit({ baseDir: currentPath, binary: 'git' })
+      .raw(['rev-parse', '--path-format=absolute', '--git-common-dir'])).trim();
+    if (basename(commonDir) === '.bare') {
+      return commonDir;
+    }
+  } catch {
+    // Not inside a worktree (e.g. the repository root itself)
+  }
+  
+  // Otherwise look for .bare in the current directory and every parent
+  for (let dir = currentPath; ; dir = dirname(dir)) {
+    if (await directoryExists(join(dir, '.bare'))) {
+      return join(dir, '.bare');
+    }
+    if (dirname(dir) === dir) {
+      return null;
+    }
+  }
+}
+
+function isInsidePath(path: string, parent: string): boolean {
+  return path === parent || path.startsWith(parent.endsWith('/') ? parent : `${parent}/`);
+}
+
+async function listRegisteredWorktrees(repo: RepoContext): Promise<WorktreeInfo[]> {
+  const bareGit = simpleGit({ baseDir: repo.barePath, binary: 'git' });
+  const worktreeOutput = await bareGit.raw(['worktree', 'list', '--porcelain']);
+  
+  return (await parseWorktreeList(worktreeOutput)).filter(wt => !wt.isBare);
+}
+
+// Accepts the branch name, the name without branchPrefix, or the worktree's directory
+function findWorktree(repo: RepoContext, worktrees: WorktreeInfo[], name: string): WorktreeInfo | undefined {
+  const prefixed = applyBranchPrefix(repo.config, name);
+  const byDirectory = worktrees.filter(wt => basename(wt.path) === name);
+  
+  return worktrees.find(wt => wt.branch === name)
+    ?? worktrees.find(wt => wt.branch === prefixed)
+    ?? worktrees.find(wt => wt.path === resolve(repo.root, name) || wt.path === resolve(workingDirectory(), name))
+    ?? (byDirectory.length === 1 ? byDirectory[0] : undefined);
+}
+
+// The named worktree, or the innermost one containing the working directory
+function findWorktreeOrCurrent(repo: RepoContext, worktrees: WorktreeInfo[], name?: string): WorktreeInfo | undefined {
+  if (name) {
+    return findWorktree(repo, worktrees, name);
+  }
+  return worktrees
+    .filter(wt => isInsidePath(workingDirectory(), wt.path))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+// Nested worktrees (e.g. "feature/foo") leave their parent directories behind when removed
+async function removeEmptyParents(path: string, root: string): Promise<void> {
+  for (let dir = dirname(path); dir !== root && isInsidePath(dir, root); dir = dirname(dir)) {
+    try {
+      await fs.rmdir(dir);
+    } catch {
+      return;
+    }
+  }
+}
+
+async function requireBarePath(): Promise<string> {
+  const barePath = await getBarePath();
+  
+  if (!barePath) {
+    throw new NotATmRepoError();
+  }
+  
+  return barePath;
+}
+
+// Parses `git worktree list --porcelain` output
+async function parseWorktreeList(worktreeOutput: string): Promise<WorktreeInfo[]> {
+  const worktrees: WorktreeInfo[] = [];
+  
+  const entries = worktreeOutput.trim().split('\n\n');
+  for (const entry of entries) {
+    const lines = entry.split('\n');
+    const pathLine = lines.find(l => l.startsWith('worktree '));
+    const headLine = lines.find(l => l.startsWith('HEAD '));
+    const branchLine = lines.find(l => l.startsWith('branch '));
+    const lockedLine = lines.find(l => l === 'locked' || l.startsWith('locked '));
+    
+    if (pathLine) {
+      const path = pathLine.replace('worktree ', '');
+      
+      worktrees.push({
+        path,
+        branch: branchLine ? branchLine.replace('branch ', '').replace('refs/heads/', '') : '',
+        head: headLine ? headLine.replace('HEAD ', '') : null,
+        isBare: lines.includes('bare'),
+        isDetached: lines.includes('detached'),
+        exists: await directoryExists(path),
+        locked: !!lockedLine,
+        lockReason: lockedLine?.replace(/^locked ?/, '') || null
+      });
+    }
+  }
+  
+  return worktrees;
+}
+
+// Worktree probes run in parallel, but not so many that large repos thrash the disk
+const PROBE_CONCURRENCY = 8;
+
+interface StatusProbe {
+  modified: number | null;
+  // Submodules not checked out at the commit the worktree records
+  outdatedSubmodules: number | null;
+  ahead: number;
+  behind: number;
+  upstream: string | null;
+}
+
+export interface ListOptions {
+  // Skip the per-worktree `git status`; ahead/behind still come from the branch refs
+  fast?: boolean;
+  // Reuse statuses younger than listCacheTtl whose index has not changed
+  cached?: boolean;
+}
+
+// `git status --porcelain=v2 --branch`: "# branch.*" headers, then one line per changed file
+function parseStatusV2(output: string): StatusProbe {
+  let modified = 0;
+  let outdatedSubmodules = 0;
+  let ahead = 0;
+  let behind = 0;
+  let upstream: string | null = null;
+  
+  for (const line of output.split('\n')) {
+    if (line.startsWith('# branch.upstream ')) {
+      upstream = line.slice('# branch.upstream '.length);
+    } else if (line.startsWith('# branch.ab ')) {
+      const [aheadCount, behindCount] = line.slice('# branch.ab '.length).split(' ');
+      ahead = Math.abs(Number(aheadCount));
+      behind = Math.abs(Number(behindCount));
+    } else if (line && !line.startsWith('#')) {
+      modified++;
+      // Changed entries carry a submodule state, "SC.." when its checked-out commit differs
+      if (line.split(' ')[2]?.startsWith('SC')) {
+        outdatedSubmodules++;
+      }
+    }
+  }
+  
+  // An upstream that no longer exists gets no branch.ab header
+  if (!output.includes('# branch.ab ')) {
+    upstream = null;
+  }
+  
+  return { modified, outdatedSubmodules, ahead, behind, upstream };
+}
+
+// Upstream and ahead/behind of every local branch in a single call, for `list --fast`
+async function getBranchTracking(bareGit: SimpleGit): Promise<Map<string, StatusProbe>> {
+  const output = await bareGit.raw([
+    'for-each-ref',
+    '--format=%(refname:short)%09%(upstream:short)%09%(upstream:track,nobracket)',
+    'refs/heads/'
+  ]);
+  
+  const tracking = new Map<string, StatusProbe>();
+  for (const line of output.split('\n').filter(Boolean)) {
+    const [branchName, upstream, track] = line.split('\t');
+    tracking.set(branchName, {
+      modified: null,
+      outdatedSubmodules: null,
+      ahead: Number(/ahead (\d+)/.exec(track)?.[1] ?? 0),
+      behind: Number(/behind (\d+)/.exec(track)?.[1] ?? 0),
+      upstream: upstream && track !== 'gone' ? upstream : null
+    });
+  }
+  
+  return tracking;
+}
+
+async function probeWorktree(path: string): Promise<StatusProbe | null> {
+  try {
+    const worktreeGit = simpleGit({ baseDir: path, binary: 'git' });
+    return parseStatusV2(await worktreeGit.raw(['status', '--porcelain=v2', '--branch']));
+  } catch {
+    // Ignore status errors
+    return null;
+  }
+}
+
+interface ListCacheEntry {
+  key: string;
+  time: number;
+  probe: StatusProbe;
+}
+
+function listCachePath(repo: RepoContext): string {
+  return join(repo.barePath, 'tm-list-cache.json');
+}
+
+// Changes whenever the worktree's index is rewritten or its HEAD moves
+async function listCacheKey(wt: WorktreeInfo): Promise<string | null> {
+  try {
+    return `${await getIndexMtime(wt.path)}:${wt.head}`;
+  } catch {
+    return null;
+  }
+}
+
+// A linked worktree's index lives in the .bare/worktrees/<id> directory its .git file points to
+async function getIndexMtime(worktreePath: string): Promise<number> {
+  const gitFile = await fs.readFile(join(worktreePath, '.git'), 'utf8');
+  const gitDir = resolve(worktreePath, gitFile.replace(/^gitdir: /, '').trim());
+  return (await fs.stat(join(gitDir, 'index'))).mtimeMs;
+}
+
+async function readListCache(repo: RepoContext): Promise<Record<string, ListCacheEntry>> {
+  try {
+    return JSON.parse(await fs.readFile(listCachePath(repo), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function getWorktreeStatus(wt: WorktreeInfo, isCurrent: boolean, base: string | null, sparse: string | null, probe: StatusProbe | null): WorktreeStatus {
+  return {
+    ...wt,
+    isCurrent,
+    modified: 0,
+    outdatedSubmodules: 0,
+    ahead: 0,
+    behind: 0,
+    upstream: null,
+    base,
+    sparse,
+    ...(wt.exists ? probe : null)
+  };
+}
+
+// Status of every registered worktree, marking the one containing the working directory
+async function getWorktreeStatuses(repo: RepoContext, options: ListOptions = {}): Promise<WorktreeStatus[]> {
+  const bareGit = simpleGit({ baseDir: repo.barePath, binary: 'git' });
+  const worktrees = await listRegisteredWorktrees(repo);
+  
+  // With nested worktrees the current one is the deepest that contains the working directory
+  const current = worktrees
+    .filter(wt => isInsidePath(workingDirectory(), wt.path))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+  
+  const bases = await getRecordedBases(bareGit);
+  const profiles = await getBranchSettings(bareGit, SPARSE_CONFIG_KEY);
+  
+  if (options.fast) {
+    const tracking = await getBranchTracking(bareGit);
+    return worktrees.map(wt => getWorktreeStatus(wt, wt === current, bases.get(wt.branch) ?? null, profiles.get(wt.branch) ?? null,
+      tracking.get(wt.branch) ?? { modified: null, outdatedSubmodules: null, ahead: 0, behind: 0, upstream: null }));
+  }
+  
+  const cache = await readListCache(repo);
+  const now = Date.now();
+  const fresh: Record<string, ListCacheEntry> = {};
+  
+  const statuses = await mapConcurrent(worktrees, PROBE_CONCURRENCY, async wt => {
+    if (!wt.exists) {
+      return getWorktreeStatus(wt, wt === current, bases.get(wt.branch) ?? null, profiles.get(wt.branch) ?? null, null);
+    }
+    
+    const cached = cache[wt.path];
+    let probe: StatusProbe | null = null;
+    if (options.cached && cached && now - cached.time < repo.config.listCacheTtl * 1000
+      && cached.key === await listCacheKey(wt)) {
+      probe = cached.probe;
+      fresh[wt.path] = cached;
+    } else {
+      probe = await probeWorktree(wt.path);
+      // Keyed after probing, since `git status` may refresh the index
+      const key = await listCacheKey(wt);
+      if (probe && key) {
+        fresh[wt.path] = { key, time: now, probe };
+      }
+    }
+    
+    return getWorktreeStatus(wt, wt === current, bases.get(wt.branch) ?? null, profiles.get(wt.branch) ?? null, probe);
+  });
+  
+  await fs.writeFile(listCachePath(repo), JSON.stringify(fresh)).catch(() => {});
+  
+  return statuses;
+}
+
+// The "[2 modified] [ahead 1]" markers shown after a worktree's branch
+function describeWorktreeStatus(wt: WorktreeStatus): string {
+  const status = wt.modified ? ` [${wt.modified} modified]` : '';
+  const submoduleStatus = wt.outdatedSubmodules ? ` [${wt.outdatedSubmodules} submodule(s) out of date]` : '';
+  
+  let syncStatus = '';
+  if (wt.ahead > 0 && wt.behind > 0) {
+    syncStatus = ` [ahead ${wt.ahead}, behind ${wt.behind}]`;
+  } else if (wt.ahead > 0) {
+    syncStatus = ` [ahead ${wt.ahead}]`;
+  } else if (wt.behind > 0) {
+    syncStatus = ` [behind ${wt.behind}]`;
+  }
+  
+  // Mark if directory doesn't exist (orphaned)
+  const orphanMarker = wt.exists ? '' : ' [ORPHANED]';
+  const lockMarker = wt.locked ? (wt.lockReason ? ` [LOCKED: ${wt.lockReason}]` : ' [LOCKED]') : '';
+  const sparseMarker = wt.sparse ? ` [sparse: ${wt.sparse}]` : '';
+  const baseMarker = wt.base ? ` (from ${wt.base})` : '';
+  
+  return `${status}${submoduleStatus}${syncStatus}${orphanMarker}${lockMarker}${sparseMarker}${baseMarker}`;
+}
+
+// `tm list` output; the statuses come from WorktreeManager.list
+function printWorktreeList(statuses: WorktreeStatus[]): void {
+  log('Worktrees:');
+  log('');
+  
+  for (const wt of statuses) {
+    // Mark current worktree
+    const marker = wt.isCurrent ? '* ' : '  ';
+    
+    log(`${marker}${wt.branch || '(detached)'}${describeWorktreeStatus(wt)}`);
+    log(`    ${wt.path}`);
+    log('');
+  }
+}
+
+export interface AddOptions extends PopulateOptions {
+  like?: string;
+  sparse?: string;
+  // Remote to take the branch from when there is no local one (default: the remote config)
+  remote?: string;
+}
+
+// "upstream/fix" names the fix branch of the upstream remote, unless a local branch is called that
+async function resolveRemoteBranch(repo: RepoContext, bareGit: SimpleGit, name: string, remote?: string): Promise<{ remote: string; branch: string }> {
+  const remotes = (await bareGit.getRemotes()).map(r => r.name);
+  if (remote) {
+    if (!remotes.includes(remote)) {
+      throw new TmError('REMOTE_NOT_FOUND', `Remote '${remote}' does not exist`);
+    }
+    return { remote, branch: name };
+  }
+  
+  const prefixed = remotes.find(r => name.startsWith(`${r}/`));
+  if (prefixed && !(await gitSucceeds(repo.barePath, ['show-ref', '--verify', '--quiet', `refs/heads/${name}`]))) {
+    return { remote: prefixed, branch: name.slice(prefixed.length + 1) };
+  }
+  return { remote: repo.config.remote, branch: name };
+}
+
+async function addWorktree(name: string, options: AddOptions = {}, command = 'add'): Promise<CreateWorktreeResult> {
+  const repo = await requireRepo();
+  const bareGit = simpleGit({
+    baseDir: repo.barePath,
+    binary: 'git'
+  });
+  const { remote, branch: branchName } = await resolveRemoteBranch(repo, bareGit, name, options.remote);
+  const branchPath = resolveWorktreePath(repo, branchName);
+  
+  const existing = (await listRegisteredWorktrees(repo)).find(wt => wt.branch === branchName);
+  if (existing || await directoryExists(branchPath)) {
+    throw new WorktreeExistsError(`Worktree ${branchName} already exists${existing ? ` at ${existing.path}` : ''}`);
+  }
+  
+  try {
+    // Check if branch exists (locally or remotely), fetching a remote branch not seen yet
+    const hasLocalBranch = await gitSucceeds(repo.barePath, ['show-ref', '--verify', '--quiet', `refs/heads/${branchName}`]);
+    const remoteRef = `refs/remotes/${remote}/${branchName}`;
+    if (!hasLocalBranch && !(await gitSucceeds(repo.barePath, ['show-ref', '--verify', '--quiet', remoteRef]))) {
+      // An explicit refspec also works for single-branch clones
+      await bareGit.fetch([remote, fetchRefspec(remote, branchName)]).catch(() => {});
+      if (!(await gitSucceeds(repo.barePath, ['show-ref', '--verify', '--quiet', remoteRef]))) {
+        throw new BranchNotFoundError(`Branch '${branchName}' does not exist locally or on ${remote}`);
+      }
+    }
+    
+    const carrySource = await findCarrySource(repo, options.like);
+    if (options.sparse) {
+      // Fails on an unknown profile before anything is created
+      getSparseDirectories(repo, options.sparse);
+    }
+    
+    const hookContext: HookContext = {
+      repoRoot: repo.root,
+      branch: branchName,
+      worktreePath: branchPath,
+      baseBranch: await resolveBaseBranch(repo, bareGit, branchName)
+    };
+    
+    const env = await allocateEnv(repo, branchName, branchPath);
+    await runHooks('pre-create', hookContext);
+    
+    // If branch only exists remotely, create local tracking branch
+    if (!hasLocalBranch) {
+      await addFetchRefspec(bareGit, remote, branchName);
+      await bareGit.raw(['branch', '--track', branchName, `${remote}/${branchName}`]);
+    }
+    
+    // Create worktree for the branch
+    await checkoutWorktree(repo, bareGit, branchPath, branchName, options.sparse);
+    await populateWorktree(repo, branchPath, options);
+    await setUpWorktreeEnv(repo, env);
+    
+    log(`Created worktree for branch '${branchName}' at ${branchPath}`);
+    const tip = await branchTip(repo, branchName);
+    await recordOperation(repo, command, [
+      { action: 'created', branch: branchName, path: branchPath, before: hasLocalBranch ? tip : null, after: tip }
+    ]);
+    
+    const carried = await carryIntoWorktree(repo, carrySource, branchPath);
+    
+    await runHooks('post-create', hookContext);
+    
+    return { branch: branchName, path: branchPath, baseBranch: hookContext.baseBranch ?? null, carried };
+  } catch (error) {
+    await releaseUnusedEnv(repo, branchPath);
+    throw wrapError(error, 'ADD_FAILED', 'Add worktree failed');
+  }
+}
+
+export interface PruneOptions {
+  // Also prune locked worktrees
+  force?: boolean;
+}
+
+// "locked" or "locked: <reason>"
+function describeLock(wt: WorktreeInfo): string {
+  return wt.lockReason ? `locked: ${wt.lockReason}` : 'locked';
+}
+
+async function pruneWorktrees(options: PruneOptions = {}): Promise<BatchResult> {
+  const repo = await requireRepo();
+  
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    
+    const orphanedWorktrees = (await listRegisteredWorktrees(repo)).filter(wt => !wt.exists);
+    
+    if (orphanedWorktrees.length === 0) {
+      log('No orphaned worktrees found');
+      return { results: [] };
+    }
+    
+    log(`Found ${orphanedWorktrees.length} orphaned worktree(s):`);
+    for (const wt of orphanedWorktrees) {
+      log(`  - ${wt.branch} (${wt.path})`);
+    }
+    
+    // Remove orphaned worktrees
+    const results: ItemResult[] = [];
+    const pruned: JournalChange[] = [];
+    for (const wt of orphanedWorktrees) {
+      // A locked worktree may just be on a disk that is not mounted right now
+      if (wt.locked && !options.force) {
+        log(`Skipped ${wt.branch || wt.path}: ${describeLock(wt)} (use --force to prune it anyway)`);
+        results.push({ branch: wt.branch, path: wt.path, status: 'skipped', message: describeLock(wt) });
+        continue;
+      }
+      
+      try {
+        await bareGit.raw(['worktree', 'remove', ...(wt.locked ? ['--force', '--force'] : []), wt.path]);
+        await removeEmptyParents(wt.path, repo.root);
+        log(`Pruned orphaned worktree: ${wt.branch}`);
+        pruned.push({ action: 'removed', branch: wt.branch, path: wt.path, before: wt.head, after: wt.branch ? wt.head : null });
+        
+        await runHooks('post-remove', {
+          repoRoot: repo.root,
+          branch: wt.branch,
+          worktreePath: wt.path,
+          baseBranch: await resolveBaseBranch(repo, bareGit, wt.branch)
+        });
+        await releaseEnv(repo, wt.path);
+        
+        results.push({ branch: wt.branch, path: wt.path, status: 'pruned', message: null });
+      } catch (error) {
+        warn(`Failed to prune ${wt.branch}: ${(error as Error).message}`);
+        results.push({ branch: wt.branch, path: wt.path, status: 'failed', message: (error as Error).message });
+      }
+    }
+    
+    await recordOperation(repo, 'prune', pruned);
+    return { results };
+  } catch (error) {
+    throw wrapError(error, 'PRUNE_FAILED', 'Prune failed');
+  }
+}
+
+export interface CleanOptions {
+  dryRun?: boolean;
+  // Remove every candidate without asking
+  yes?: boolean;
+  // Also offer worktrees with no commits or file changes for this many days
+  olderThan?: number;
+  force?: boolean;
+}
+
+interface CleanCandidate {
+  worktree: WorktreeInfo;
+  reasons: string[];
+  // Merged or squash-merged, so deleting the branch loses no commits
+  merged: boolean;
+}
+
+// A new branch still at the commit it was created at is contained in its base without ever
+// having been merged
+async function isUnchangedSinceStart(barePath: string, branchName: string): Promise<boolean> {
+  const start = await runGit(barePath, ['config', `branch.${branchName}.${START_CONFIG_KEY}`]);
+  const tip = await runGit(barePath, ['rev-parse', branchName]);
+  return start.code === 0 && start.output === tip.output;
+}
+
+// Whether everything the branch changes is already in target, e.g. after a squash merge
+async function isSquashMerged(barePath: string, branchName: string, target: string): Promise<boolean> {
+  const mergeBase = await runGit(barePath, ['merge-base', target, branchName]);
+  if (mergeBase.code !== 0) {
+    return false;
+  }
+  
+  // Merging the branch would not change the target's tree
+  const mergedTree = await runGit(barePath, ['merge-tree', '--write-tree', target, branchName]);
+  const targetTree = await runGit(barePath, ['rev-parse', `${target}^{tree}`]);
+  if (mergedTree.code === 0 && mergedTree.output.split('\n')[0] === targetTree.output) {
+    return true;
+  }
+  
+  // The branch's whole diff as one commit has the patch-id of a commit on the target
+  const squashed = await runGit(barePath, [
+    '-c', 'user.name=tm', '-c', 'user.email=tm@localhost',
+    'commit-tree', `${branchName}^{tree}`, '-p', mergeBase.output, '-m', 'tm clean'
+  ]);
+  if (squashed.code !== 0) {
+    return false;
+  }
+  return (await runGit(barePath, ['cherry', target, squashed.output])).output.startsWith('-');
+}
+
+// Newest of the last commit, the index and any changed file
+async function getLastActivity(wt: WorktreeInfo): Promise<number> {
+  const times = [Number((await runGit(wt.path, ['log', '-1', '--format=%ct'])).output) * 1000];
+  
+  times.push(await getIndexMtime(wt.path).catch(() => 0));
+  for (const line of (await runGit(wt.path, ['status', '--porcelain', '--no-renames'])).output.split('\n').filter(Boolean)) {
+    times.push(await fs.stat(join(wt.path, line.slice(3))).then(stats => stats.mtimeMs, () => 0));
+  }
+  
+  return Math.max(...times);
+}
+
+async function findCleanCandidates(repo: RepoContext, bareGit: SimpleGit, options: CleanOptions): Promise<CleanCandidate[]> {
+  const defaultBranch = await getDefaultBranch(repo, bareGit);
+  
+  const gone = new Set((await bareGit.raw(['for-each-ref', '--format=%(refname:short)%09%(upstream:track)', 'refs/heads/']))
+    .split('\n')
+    .filter(line => line.endsWith('\t[gone]'))
+    .map(line => line.slice(0, line.indexOf('\t'))));
+  
+  // Locked worktrees are kept on purpose, unless --force
+  const worktrees = (await listRegisteredWorktrees(repo))
+    .filter(wt => wt.exists && wt.branch && wt.branch !== defaultBranch && (!wt.locked || options.force));
+  
+  const candidates = await mapConcurrent(worktrees, PROBE_CONCURRENCY, async (wt): Promise<CleanCandidate> => {
+    const reasons: string[] = [];
+    let merged = false;
+    const target = await getMergeTarget(repo, bareGit, wt.branch) ?? defaultBranch;
+    
+    if (await gitSucceeds(repo.barePath, ['merge-base', '--is-ancestor', wt.branch, target])) {
+      if (!(await isUnchangedSinceStart(repo.barePath, wt.branch))) {
+        reasons.push(`merged into ${target}`);
+        merged = true;
+      }
+    } else if (await isSquashMerged(repo.barePath, wt.branch, target)) {
+      reasons.push(`squash-merged into ${target}`);
+      merged = true;
+    }
+    
+    if (gone.has(wt.branch)) {
+      reasons.push('upstream gone');
+    }
+    
+    if (options.olderThan !== undefined) {
+      const days = Math.floor((Date.now() - await getLastActivity(wt)) / 86_400_000);
+      if (days >= options.olderThan) {
+        reasons.push(`inactive for ${days} days`);
+      }
+    }
+    
+    return { worktree: wt, reasons, merged };
+  });
+  
+  return candidates.filter(candidate => candidate.reasons.length > 0);
+}
+
+async function clean(options: CleanOptions = {}): Promise<BatchResult> {
+  const repo = await requireRepo();
+  const { remote } = repo.config;
+  
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    
+    // Pruning is what marks upstreams of deleted remote branches as gone
+    log(`Fetching updates from ${remote}...`);
+    try {
+      await bareGit.fetch([remote, '--prune']);
+    } catch (error) {
+      warn(`Warning: fetch failed, using the last fetched state: ${(error as Error).message.trim()}`);
+    }
+    
+    const candidates = await findCleanCandidates(repo, bareGit, options);
+    const candidateResult = (candidate: CleanCandidate, status: string): ItemResult => ({
+      branch: candidate.worktree.branch,
+      path: candidate.worktree.path,
+      status,
+      message: candidate.reasons.join(', ')
+    });
+    
+    if (candidates.length === 0) {
+      log('Nothing to clean');
+      return { results: [] };
+    }
+    
+    const width = Math.max(...candidates.map(c => c.worktree.branch.length));
+    log(`Found ${candidates.length} worktree(s) to clean:`);
+    for (const candidate of candidates) {
+      log(`  ${candidate.worktree.branch.padEnd(width)}  ${candidate.reasons.join(', ')}`);
+    }
+    
+    let selected: CleanCandidate[];
+    if (options.dryRun) {
+      selected = [];
+    } else if (options.yes) {
+      selected = candidates;
+    } else if (isInteractive()) {
+      const paths = await pick(candidates.map(candidate => ({
+        label: candidate.worktree.branch,
+        detail: candidate.reasons.join(', '),
+        value: candidate.worktree.path
+      })), { prompt: 'Remove:', multi: true });
+      selected = candidates.filter(candidate => paths.includes(candidate.worktree.path));
+    } else {
+      log('\nRun with --yes to remove them');
+      selected = [];
+    }
+    
+    if (selected.length === 0) {
+      return { results: candidates.map(candidate => candidateResult(candidate, 'candidate')) };
+    }
+    
+    log('');
+    const results: ItemResult[] = [];
+    for (const candidate of candidates) {
+      if (!selected.includes(candidate)) {
+        results.push(candidateResult(candidate, 'kept'));
+        continue;
+      }
+      try {
+        await remove(candidate.worktree.path, { deleteBranch: true, merged: candidate.merged, force: options.force }, 'clean');
+        results.push(candidateResult(candidate, 'removed'));
+      } catch (error) {
+        warn((error as Error).message);
+        results.push({ ...candidateResult(candidate, 'failed'), message: (error as Error).message });
+      }
+    }
+    
+    return { results };
+  } catch (error) {
+    throw wrapError(error, 'CLEAN_FAILED', 'Clean failed');
+  }
+}
+
+const SYNC_STRATEGIES: SyncStrategy[] = ['merge', 'rebase', 'ff-only'];
+
+export interface SyncOptions {
+  strategy?: SyncStrategy;
+  // Stash uncommitted changes around the update instead of skipping the worktree
+  autostash?: boolean;
+  // Glob patterns matched against branch names
+  only?: string[];
+  exclude?: string[];
+  // Also update locked worktrees
+  force?: boolean;
+  // Fetch every remote, not just the ones the worktrees track
+  allRemotes?: boolean;
 }
 
-interface RemoveOptions {
-  deleteBranch?: boolean;
+interface SyncTarget {
+  worktree: WorktreeInfo;
+  // What to integrate: the upstream, then for rebase also the base branch
+  refs: string[];
+}
+
+// Matching branches are selected by --only and dropped by --exclude
+function matchesBranchFilters(branchName: string, only: string[] = [], exclude: string[] = []): boolean {
+  const matches = (pattern: string) => new Bun.Glob(pattern).match(branchName);
+  return (only.length === 0 || only.some(matches)) && !exclude.some(matches);
+}
+
+// Updates are added to `changes` for the journal
+async function syncWorktree(target: SyncTarget, strategy: SyncStrategy, autostash: boolean, changes: JournalChange[]): Promise<ItemResult> {
+  const { worktree: wt, refs } = target;
+  const item = (status: string, message: string | null = null): ItemResult =>
+    ({ branch: wt.branch, path: wt.path, status, message });
+  
+  if (refs.length === 0) {
+    return item('no-upstream');
+  }
+  
+  const dirty = (await runGit(wt.path, ['status', '--porcelain', '--untracked-files=no'])).output !== '';
+  if (dirty && !autostash) {
+    return item('skipped', 'uncommitted changes');
+  }
+  
+  const before = (await runGit(wt.path, ['rev-parse', 'HEAD'])).output;
+  
+  for (const ref of refs) {
+    if (await gitSucceeds(wt.path, ['merge-base', '--is-ancestor', ref, 'HEAD'])) {
+      continue;
+    }
+    
+    const stash = autostash ? ['--autostash'] : [];
+    const args = strategy === 'rebase'
+      ? ['rebase', ...stash, ref]
+      : ['merge', ...stash, strategy === 'ff-only' ? '--ff-only' : '--no-edit', ref];
+    const { code, output } = await runGit(wt.path, args);
+    
+    if (code !== 0) {
+      if (strategy === 'ff-only') {
+        return item('failed', `cannot fast-forward to ${ref}: the branch has diverged`);
+      }
+      // Leave the worktree as it was rather than mid-conflict
+      await runGit(wt.path, [strategy === 'rebase' ? 'rebase' : 'merge', '--abort']);
+      const conflicted = /CONFLICT|could not apply/i.test(output);
+      return item(conflicted ? 'conflicted' : 'failed', conflicted ? `conflicts with ${ref}` : output.split('\n').pop() ?? null);
+    }
+    if (/autostash resulted in conflicts/i.test(output)) {
+      return item('conflicted', 'uncommitted changes conflict with the update; they are kept in the stash');
+    }
+  }
+  
+  const after = (await runGit(wt.path, ['rev-parse', 'HEAD'])).output;
+  if (before === after) {
+    return item('up-to-date');
+  }
+  changes.push({ action: 'updated', branch: wt.branch, path: wt.path, before, after });
+  return item('updated');
 }
 
-async function runPostHooks(repoPath: string): Promise<void> {
-  const hookPath = join(repoPath, 'post-hook.json');
-  const hookFile = Bun.file(hookPath);
+const SYNC_SUMMARY_ORDER = ['updated', 'up-to-date', 'skipped', 'no-upstream', 'conflicted', 'failed'];
+
+async function syncWorktrees(options: SyncOptions = {}): Promise<BatchResult> {
+  const repo = await requireRepo();
+  const strategy = options.strategy ?? repo.config.syncStrategy;
   
-  if (await hookFile.exists()) {
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    
+    const worktrees = (await listRegisteredWorktrees(repo))
+      .filter(wt => matchesBranchFilters(wt.branch, options.only, options.exclude));
+    
+    // Fetch every remote the worktrees track, in parallel
+    const upstreams = new Map<string, string>();
+    const upstreamRemotes = new Map<string, string>();
+    const remotes = new Set([repo.config.remote]);
+    for (const line of (await bareGit.raw(['for-each-ref', '--format=%(refname:short)%09%(upstream:short)%09%(upstream:remotename)', 'refs/heads/'])).split('\n')) {
+      const [branchName, upstream, upstreamRemote] = line.split('\t');
+      if (upstream && worktrees.some(wt => wt.branch === branchName)) {
+        upstreams.set(branchName, upstream);
+        if (upstreamRemote && upstreamRemote !== '.') {
+          upstreamRemotes.set(branchName, upstreamRemote);
+          remotes.add(upstreamRemote);
+        }
+      }
+    }
+    
+    
+    // Rebasing onto the default branch needs it fresh too, from the upstream project for forks
+    let base: BaseRemote | undefined;
     try {
-      const hooks: PostHookConfig = await hookFile.json();
-      if (Array.isArray(hooks.hooks)) {
-        for (const hook of hooks.hooks) {
-          console.log(`Running post-hook: ${hook}`);
-          const proc = Bun.spawn(['sh', '-c', hook], {
-            cwd: repoPath,
-            stdin: "inherit",
-            stdout: "inherit",
-            stderr: "inherit"
-          });
-          
-          const exitCode = await proc.exited;
-          if (exitCode !== 0) {
-            throw new Error(`Post-hook failed with exit code ${exitCode}`);
-          }
+      base = await getBaseRemote(repo, bareGit);
+    } catch {
+      // Rebase falls back to the upstream alone
+    }
+    if (strategy === 'rebase' && base) {
+      remotes.add(base.remote);
+    }
+    if (options.allRemotes) {
+      (await bareGit.getRemotes()).forEach(r => remotes.add(r.name));
+    }
+    
+    log(`Fetching updates from ${[...remotes].join(', ')}...`);
+    // An unreachable remote fails only the worktrees tracking it
+    const failedRemotes = new Set<string>();
+    await mapConcurrent([...remotes], PROBE_CONCURRENCY, async remote => {
+      try {
+        await bareGit.fetch([remote]);
+      } catch (error) {
+        failedRemotes.add(remote);
+        warn(`Warning: fetch from ${remote} failed: ${(error as Error).message.trim()}`);
+      }
+    });
+    
+    const bases = await getRecordedBases(bareGit);
+    
+    const targets: SyncTarget[] = [];
+    const results: ItemResult[] = [];
+    for (const wt of worktrees) {
+      if (!wt.exists || !wt.branch) {
+        results.push({ branch: wt.branch, path: wt.path, status: 'skipped', message: wt.exists ? 'detached HEAD' : 'worktree is missing' });
+        continue;
+      }
+      if (wt.locked && !options.force) {
+        results.push({ branch: wt.branch, path: wt.path, status: 'skipped', message: describeLock(wt) });
+        continue;
+      }
+      const upstreamRemote = upstreamRemotes.get(wt.branch);
+      if (upstreamRemote && failedRemotes.has(upstreamRemote)) {
+        results.push({ branch: wt.branch, path: wt.path, status: 'failed', message: `fetch from ${upstreamRemote} failed` });
+        continue;
+      }
+      
+      const refs = upstreams.has(wt.branch) ? [upstreams.get(wt.branch)!] : [];
+      const recorded = bases.get(wt.branch);
+      const baseBranch = recorded ?? base?.defaultBranch;
+      if (strategy === 'rebase' && baseBranch && baseBranch !== wt.branch) {
+        const baseRef = await preferRemoteBranch(bareGit, recorded ? repo.config.remote : base!.remote, baseBranch);
+        if (!refs.includes(baseRef)) {
+          refs.push(baseRef);
+        }
+      }
+      targets.push({ worktree: wt, refs });
+    }
+    
+    log(`Syncing ${targets.length} worktree(s) with ${strategy}...\n`);
+    
+    const changes: JournalChange[] = [];
+    results.push(...await mapConcurrent(targets, PROBE_CONCURRENCY, target =>
+      syncWorktree(target, strategy, !!options.autostash, changes).catch((error: Error): ItemResult =>
+        ({ branch: target.worktree.branch, path: target.worktree.path, status: 'failed', message: error.message }))
+    ));
+    await recordOperation(repo, 'sync', changes);
+    
+    // Hooks run one at a time so their output does not interleave
+    for (const result of results.filter(r => r.status === 'updated')) {
+      await runHooks('post-sync', {
+        repoRoot: repo.root,
+        branch: result.branch,
+        worktreePath: result.path,
+        baseBranch: await resolveBaseBranch(repo, bareGit, result.branch)
+      });
+    }
+    
+    const width = Math.max(0, ...results.map(r => r.branch.length));
+    for (const result of results) {
+      log(`  ${result.branch.padEnd(width)}  ${result.status}${result.message ? ` (${result.message})` : ''}`);
+    }
+    
+    const counts = SYNC_SUMMARY_ORDER
+      .map(status => [status, results.filter(r => r.status === status).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([status, count]) => `${count} ${status}`);
+    log(`\n${counts.join(', ') || 'Nothing to sync'}`);
+    
+    return { results };
+  } catch (error) {
+    throw wrapError(error, 'SYNC_FAILED', 'Sync failed');
+  }
+}
+
+export interface ForeachOptions {
+  // Worktrees to run the command in at once (default: 1)
+  parallel?: number;
+  // Glob patterns matched against branch names
+  only?: string[];
+  exclude?: string[];
+  // Only worktrees with (dirty) or without (clean) uncommitted changes
+  state?: 'dirty' | 'clean';
+  // Start no further worktrees after the first failure
+  failFast?: boolean;
+  // Print each worktree's output as one block when it finishes instead of prefixing lines
+  group?: boolean;
+}
+
+export interface ForeachItemResult extends ItemResult {
+  exitCode: number | null;
+}
+
+export interface ForeachResult {
+  results: ForeachItemResult[];
+}
+
+async function readLines(stream: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+  const decoder = new TextDecoder();
+  let pending = '';
+  for await (const chunk of stream) {
+    pending += decoder.decode(chunk, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop()!;
+    lines.forEach(onLine);
+  }
+  pending += decoder.decode();
+  if (pending) {
+    onLine(pending);
+  }
+}
+
+// A single argument is a shell command line; several are run as-is
+async function foreachWorktree(command: string[], options: ForeachOptions = {}): Promise<ForeachResult> {
+  const repo = await requireRepo();
+  const parallel = Math.max(1, options.parallel ?? 1);
+  // One at a time, output streams straight through under a header
+  const stream = parallel === 1 && !options.group;
+  const argv = command.length === 1 ? ['sh', '-c', command[0]] : command;
+  
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    
+    let worktrees = (await listRegisteredWorktrees(repo))
+      .filter(wt => wt.exists && matchesBranchFilters(wt.branch, options.only, options.exclude));
+    
+    if (options.state) {
+      const dirty = await mapConcurrent(worktrees, PROBE_CONCURRENCY, async wt =>
+        (await runGit(wt.path, ['status', '--porcelain'])).output !== '');
+      worktrees = worktrees.filter((_, index) => dirty[index] === (options.state === 'dirty'));
+    }
+    
+    let defaultBranch: string | undefined;
+    try {
+      defaultBranch = await getDefaultBranch(repo, bareGit);
+    } catch {
+      // TM_BASE_BRANCH is left empty
+    }
+    const bases = await getRecordedBases(bareGit);
+    
+    const print = (line = '') => printOutput('stdout', line);
+    const printError = (line: string) => printOutput('stderr', line);
+    const label = (wt: WorktreeInfo) => wt.branch || basename(wt.path);
+    const width = Math.max(0, ...worktrees.map(wt => label(wt).length));
+    let failed = false;
+    
+    const results = await mapConcurrent(worktrees, parallel, async (wt): Promise<ForeachItemResult> => {
+      const item = (status: string, message: string | null, exitCode: number | null): ForeachItemResult =>
+        ({ branch: wt.branch, path: wt.path, status, message, exitCode });
+      
+      if (failed && options.failFast) {
+        return item('skipped', 'an earlier worktree failed', null);
+      }
+      
+      const header = `==> ${label(wt)} (${wt.path})`;
+      const prefix = `[${label(wt).padEnd(width)}] `;
+      const output: Array<[boolean, string]> = [];
+      const emit = (isError: boolean, line: string) => {
+        if (options.group) {
+          output.push([isError, line]);
+        } else {
+          (isError ? printError : print)(stream ? line : prefix + line);
+        }
+      };
+      
+      if (stream) {
+        print(header);
+      }
+      
+      let exitCode: number | null;
+      let message: string | null = null;
+      try {
+        const proc = Bun.spawn(argv, {
+          cwd: wt.path,
+          env: {
+            ...process.env,
+            ...await worktreeEnv({
+              repoRoot: repo.root,
+              branch: wt.branch,
+              worktreePath: wt.path,
+              baseBranch: bases.get(wt.branch) ?? defaultBranch
+            })
+          },
+          stdin: stream ? 'inherit' : 'ignore',
+          stdout: 'pipe',
+          stderr: 'pipe'
+        });
+        await Promise.all([
+          readLines(proc.stdout, line => emit(false, line)),
+          readLines(proc.stderr, line => emit(true, line)),
+          proc.exited
+        ]);
+        exitCode = proc.exitCode;
+        if (exitCode !== 0) {
+          message = exitCode === null ? `killed by ${proc.signalCode}` : `exit code ${exitCode}`;
+        }
+      } catch (error) {
+        exitCode = null;
+        message = (error as Error).message;
+      }
+      
+      if (options.group) {
+        print(header);
+        for (const [isError, line] of output) {
+          (isError ? printError : print)(line);
+        }
+      }
+      if (stream || options.group) {
+        print('');
+      }
+      
+      if (message) {
+        failed = true;
+        return item('failed', message, exitCode);
+      }
+      return item('ok', null, exitCode);
+    });
+    
+    log('Summary:');
+    for (const result of results) {
+      const outcome = result.exitCode === null ? result.status : `exit ${result.exitCode}`;
+      const detail = result.exitCode === null && result.message ? ` (${result.message})` : '';
+      log(`  ${(result.branch || basename(result.path)).padEnd(width)}  ${outcome}${detail}`);
+    }
+    
+    const counts = ['ok', 'failed', 'skipped']
+      .map(status => [status, results.filter(r => r.status === status).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([status, count]) => `${count} ${status}`);
+    log(`\n${counts.join(', ') || 'No matching worktrees'}`);
+    
+    return { results };
+  } catch (error) {
+    throw wrapError(error, 'FOREACH_FAILED', 'foreach failed');
+  }
+}
+
+interface ConvertOptions {
+  dryRun?: boolean;
+}
+
+interface ConvertResult {
+  root: string;
+  branch: string;
+  path: string;
+  dryRun: boolean;
+  worktrees: ItemResult[];
+}
+
+// Adopts a regular clone into the .bare + per-branch layout, in place
+async function convert(targetPath: string, options: ConvertOptions = {}): Promise<ConvertResult> {
+  const repoPath = resolve(targetPath);
+  const gitDir = join(repoPath, '.git');
+  const barePath = join(repoPath, '.bare');
+  
+  if (await directoryExists(barePath)) {
+    throw new TmError('ALREADY_CONVERTED', `${repoPath} already has a .bare directory`);
+  }
+  
+  if (!(await directoryExists(gitDir))) {
+    const isLinkedWorktree = await Bun.file(gitDir).exists();
+    throw new TmError('NOT_A_CLONE', isLinkedWorktree
+      ? `${repoPath} is a linked worktree; run convert on the main clone instead`
+      : `${repoPath} is not a git clone (no .git directory found)`);
+  }
+  
+  // Moving files mid-operation would leave git unable to continue it
+  const inProgress = ['MERGE_HEAD', 'CHERRY_PICK_HEAD', 'REVERT_HEAD', 'BISECT_LOG', 'rebase-merge', 'rebase-apply'];
+  for (const marker of inProgress) {
+    if (await Bun.file(join(gitDir, marker)).exists() || await directoryExists(join(gitDir, marker))) {
+      throw new TmError('OPERATION_IN_PROGRESS', `A git operation is in progress (${marker}); finish or abort it first`);
+    }
+  }
+  
+  // Submodule checkouts point at .git/modules with relative paths that the move would break
+  if (await directoryExists(join(gitDir, 'modules'))) {
+    throw new TmError('UNSUPPORTED', 'Converting clones with initialized submodules is not supported');
+  }
+  
+  try {
+    const git = simpleGit({ baseDir: repoPath, binary: 'git' });
+    
+    // Any tm.json inside the checkout belongs to the project, not to tm, so only the global config applies
+    const repo = { root: repoPath, config: await loadConfig() };
+    
+    const currentBranch = await getHeadBranch(git);
+    const head = (await git.raw(['rev-parse', 'HEAD'])).trim();
+    const worktreeName = currentBranch ?? head.slice(0, 12);
+    const worktreePath = resolveWorktreePath(repo, worktreeName);
+    
+    const linkedWorktrees = (await parseWorktreeList(await git.raw(['worktree', 'list', '--porcelain'])))
+      .filter(wt => wt.path !== repoPath);
+    
+    const plannedMoves = linkedWorktrees.map(wt => ({
+      ...wt,
+      target: resolveWorktreePath(repo, wt.branch || basename(wt.path))
+    }));
+    
+    if (options.dryRun) {
+      log(`Would convert ${repoPath} to the tm layout:`);
+      log(`  - Move .git to .bare and mark it bare`);
+      log(`  - Move the '${worktreeName}' checkout (including uncommitted and untracked files) to ${worktreePath}`);
+      for (const wt of plannedMoves) {
+        log(`  - Move linked worktree ${wt.path} to ${wt.target}`);
+      }
+      if (!(await Bun.file(join(repoPath, 'post-hook.json')).exists())) {
+        log(`  - Create post-hook.json`);
+      }
+      
+      return {
+        root: repoPath,
+        branch: worktreeName,
+        path: worktreePath,
+        dryRun: true,
+        worktrees: plannedMoves.map(wt => ({ branch: wt.branch, path: wt.target, status: 'planned', message: null }))
+      };
+    }
+    
+    // Park the checkout's files first so top-level entries can't collide with the branch directory
+    const stagingPath = join(repoPath, `.tm-convert-${process.pid}`);
+    await fs.mkdir(stagingPath);
+    for (const entry of await fs.readdir(repoPath)) {
+      if (entry !== '.git' && join(repoPath, entry) !== stagingPath) {
+        await fs.rename(join(repoPath, entry), join(stagingPath, entry));
+      }
+    }
+    
+    await fs.rename(gitDir, barePath);
+    
+    const bareGit = simpleGit({ baseDir: barePath, binary: 'git' });
+    await bareGit.raw(['config', 'core.bare', 'true']);
+    // A regular clone already fetches and knows the remote's HEAD; this is what tm adds
+    await enablePushAutoSetup(bareGit);
+    
+    // Register the worktree without checking anything out, then move the parked files into it
+    await fs.mkdir(dirname(worktreePath), { recursive: true });
+    await bareGit.raw(currentBranch
+      ? ['worktree', 'add', '--no-checkout', worktreePath, currentBranch]
+      : ['worktree', 'add', '--no-checkout', '--detach', worktreePath, head]);
+    
+    for (const entry of await fs.readdir(stagingPath)) {
+      await fs.rename(join(stagingPath, entry), join(worktreePath, entry));
+    }
+    await fs.rmdir(stagingPath);
+    
+    // The old index carries the staged changes; it now belongs to the new worktree
+    const worktreeGitDir = (await simpleGit({ baseDir: worktreePath, binary: 'git' })
+      .raw(['rev-parse', '--absolute-git-dir'])).trim();
+    if (await Bun.file(join(barePath, 'index')).exists()) {
+      await fs.rename(join(barePath, 'index'), join(worktreeGitDir, 'index'));
+    }
+    
+    log(`Converted ${repoPath} to the tm layout`);
+    log(`Checkout of '${worktreeName}' moved to ${worktreePath}`);
+    
+    const results: ItemResult[] = [];
+    if (plannedMoves.length > 0) {
+      // Linked worktrees still point at .git/worktrees/<name>
+      await bareGit.raw(['worktree', 'repair', ...plannedMoves.map(wt => wt.path)]);
+      
+      for (const wt of plannedMoves) {
+        if (wt.locked) {
+          log(`⚠️  ${wt.path}: Skipped (locked)`);
+          results.push({ branch: wt.branch, path: wt.path, status: 'skipped', message: 'locked' });
+          continue;
+        }
+        if (await directoryExists(wt.target)) {
+          log(`⚠️  ${wt.path}: Skipped (${wt.target} already exists)`);
+          results.push({ branch: wt.branch, path: wt.path, status: 'skipped', message: `${wt.target} already exists` });
+          continue;
+        }
+        
+        try {
+          await fs.mkdir(dirname(wt.target), { recursive: true });
+          await bareGit.raw(['worktree', 'move', wt.path, wt.target]);
+          log(`✓ Moved worktree ${wt.path} to ${wt.target}`);
+          results.push({ branch: wt.branch, path: wt.target, status: 'moved', message: null });
+        } catch (error) {
+          log(`✗ ${wt.path}: Failed - ${(error as Error).message}`);
+          results.push({ branch: wt.branch, path: wt.path, status: 'failed', message: (error as Error).message });
+        }
+      }
+    }
+    
+    if (!(await Bun.file(join(repoPath, 'post-hook.json')).exists())) {
+      await Bun.write(join(repoPath, 'post-hook.json'), JSON.stringify(emptyHookConfig(), null, 2));
+    }
+    
+    return { root: repoPath, branch: worktreeName, path: worktreePath, dryRun: false, worktrees: results };
+  } catch (error) {
+    throw wrapError(error, 'CONVERT_FAILED', 'Convert failed');
+  }
+}
+
+interface DoctorOptions {
+  fix?: boolean;
+}
+
+interface DoctorCheck {
+  check: string;
+  problems: string[];
+  fix?: () => Promise<void>;
+}
+
+interface DoctorCheckResult {
+  check: string;
+  status: 'ok' | 'problem' | 'fixed' | 'failed';
+  message: string | null;
+}
+
+interface DoctorResult {
+  checks: DoctorCheckResult[];
+}
+
+async function checkFetchRefspec(bareGit: SimpleGit, remote: string): Promise<DoctorCheck> {
+  const refspecs = await bareGit.raw(['config', '--get-all', `remote.${remote}.fetch`]).catch(() => '');
+  
+  return {
+    check: 'fetch-refspec',
+    problems: refspecs.trim() ? [] : [`remote.${remote}.fetch is not configured, so ${remote}/* branches are never updated`],
+    fix: async () => {
+      await bareGit.raw(['config', `remote.${remote}.fetch`, fetchRefspec(remote)]);
+      await bareGit.fetch([remote]);
+    }
+  };
+}
+
+async function checkRemoteHead(bareGit: SimpleGit, remote: string): Promise<DoctorCheck> {
+  const remoteHead = await bareGit.raw(['symbolic-ref', `refs/remotes/${remote}/HEAD`]).catch(() => '');
+  
+  return {
+    check: 'remote-head',
+    problems: remoteHead.trim() ? [] : [`refs/remotes/${remote}/HEAD is missing, so the default branch has to be guessed`],
+    fix: async () => {
+      try {
+        await bareGit.raw(['remote', 'set-head', remote, '--auto']);
+      } catch {
+        // Remote unreachable; fall back to the locally known remote branches
+        await bareGit.raw(['remote', 'set-head', remote, await getMainBranch(bareGit, remote)]);
+      }
+    }
+  };
+}
+
+async function checkBranchUpstreams(bareGit: SimpleGit, remote: string, worktrees: WorktreeInfo[]): Promise<DoctorCheck> {
+  const missing: string[] = [];
+  const remoteBranches = (await bareGit.raw(['for-each-ref', '--format=%(refname:short)', `refs/remotes/${remote}/`]))
+    .split('\n')
+    .filter(Boolean);
+  
+  for (const wt of worktrees) {
+    if (!wt.branch || !remoteBranches.includes(`${remote}/${wt.branch}`)) continue;
+    
+    const upstream = await bareGit.raw(['config', `branch.${wt.branch}.merge`]).catch(() => '');
+    if (!upstream.trim()) {
+      missing.push(wt.branch);
+    }
+  }
+  
+  return {
+    check: 'branch-upstream',
+    problems: missing.map(name => `Branch '${name}' does not track ${remote}/${name}`),
+    fix: async () => {
+      for (const name of missing) {
+        await bareGit.raw(['branch', `--set-upstream-to=${remote}/${name}`, name]);
+      }
+    }
+  };
+}
+
+async function checkPushAutoSetup(bareGit: SimpleGit): Promise<DoctorCheck> {
+  const value = await bareGit.raw(['config', '--bool', 'push.autoSetupRemote']).catch(() => '');
+  
+  return {
+    check: 'push-auto-setup-remote',
+    problems: value.trim() === 'true' ? [] : ['push.autoSetupRemote is off, so new branches get no upstream on first push'],
+    fix: async () => {
+      await enablePushAutoSetup(bareGit);
+    }
+  };
+}
+
+async function checkWorktreeLocations(bareGit: SimpleGit, repo: RepoContext, worktrees: WorktreeInfo[]): Promise<DoctorCheck> {
+  // A path template may deliberately place worktrees outside the root
+  const outside = worktrees.filter(wt => wt.exists && wt.branch
+    && !wt.path.startsWith(repo.root + '/')
+    && wt.path !== resolveWorktreePath(repo, wt.branch));
+  
+  return {
+    check: 'worktree-location',
+    problems: outside.map(wt => `Worktree '${wt.branch}' is outside the repository root (${wt.path})`),
+    fix: async () => {
+      for (const wt of outside) {
+        const target = resolveWorktreePath(repo, wt.branch);
+        if (await directoryExists(target)) {
+          throw new Error(`Cannot move '${wt.branch}': ${target} already exists`);
         }
+        await fs.mkdir(dirname(target), { recursive: true });
+        await bareGit.raw(['worktree', 'move', wt.path, target]);
       }
+    }
+  };
+}
+
+async function checkHookConfig(repoRoot: string): Promise<DoctorCheck> {
+  const hookPath = join(repoRoot, 'post-hook.json');
+  const exists = await Bun.file(hookPath).exists();
+  
+  let invalidReason: string | null = null;
+  if (exists) {
+    try {
+      await loadHookConfig(repoRoot);
     } catch (error) {
-      console.error(`Error running post-hooks: ${(error as Error).message}`);
+      invalidReason = (error as Error).message;
     }
   }
+  
+  return {
+    check: 'hook-config',
+    problems: !exists ? ['post-hook.json is missing'] : invalidReason ? [invalidReason] : [],
+    fix: async () => {
+      // Keep the broken file around so no hook definitions are lost
+      if (exists) {
+        await fs.rename(hookPath, `${hookPath}.bak`);
+      }
+      await Bun.write(hookPath, JSON.stringify(emptyHookConfig(), null, 2));
+    }
+  };
 }
 
-async function resolveRepoUrl(repoInput: string): Promise<string> {
-  // If it's already a full URL, return as-is
-  if (repoInput.startsWith('https://') || repoInput.startsWith('git@') || repoInput.endsWith('.git')) {
-    return repoInput;
+async function checkStaleAdminEntries(bareGit: SimpleGit, worktrees: WorktreeInfo[]): Promise<DoctorCheck> {
+  // git keeps locked entries on purpose, so only report what `git worktree prune` would drop
+  const stale = worktrees.filter(wt => !wt.exists && !wt.locked);
+  
+  return {
+    check: 'stale-worktree-entries',
+    problems: stale.map(wt => `.bare/worktrees entry for '${wt.branch || wt.path}' points to missing ${wt.path}`),
+    fix: async () => {
+      await bareGit.raw(['worktree', 'prune']);
+    }
+  };
+}
+
+async function doctor(options: DoctorOptions = {}): Promise<DoctorResult> {
+  const repo = await requireRepo();
+  const { remote } = repo.config;
+  
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    
+    const worktrees = await listRegisteredWorktrees(repo);
+    
+    // Order matters when fixing: the remote HEAD and upstreams need the refs from the refspec fix
+    const checks = [
+      () => checkFetchRefspec(bareGit, remote),
+      () => checkRemoteHead(bareGit, remote),
+      () => checkBranchUpstreams(bareGit, remote, worktrees),
+      () => checkPushAutoSetup(bareGit),
+      () => checkWorktreeLocations(bareGit, repo, worktrees),
+      () => checkHookConfig(repo.root),
+      () => checkStaleAdminEntries(bareGit, worktrees)
+    ];
+    
+    const results: DoctorCheckResult[] = [];
+    for (const runCheck of checks) {
+      const { check, problems, fix } = await runCheck();
+      
+      if (problems.length === 0) {
+        log(`✓ ${check}`);
+        results.push({ check, status: 'ok', message: null });
+        continue;
+      }
+      
+      const message = problems.join('; ');
+      if (!options.fix || !fix) {
+        log(`✗ ${check}: ${problems.join(`\n    `)}`);
+        results.push({ check, status: 'problem', message });
+        continue;
+      }
+      
+      try {
+        await fix();
+        log(`✓ ${check}: Fixed - ${problems.join(`\n    `)}`);
+        results.push({ check, status: 'fixed', message });
+      } catch (error) {
+        log(`✗ ${check}: Fix failed - ${(error as Error).message}`);
+        results.push({ check, status: 'failed', message: (error as Error).message });
+      }
+    }
+    
+    const remaining = results.filter(r => r.status === 'problem' || r.status === 'failed').length;
+    if (remaining > 0) {
+      log('');
+      log(options.fix
+        ? `${remaining} problem(s) could not be fixed`
+        : `Found ${remaining} problem(s); run 'tm doctor --fix' to repair them`);
+    }
+    
+    return { checks: results };
+  } catch (error) {
+    throw wrapError(error, 'DOCTOR_FAILED', 'Doctor failed');
   }
+}
+
+interface PullRequestInfo {
+  title: string;
+  headBranch: string;
+  baseBranch: string;
+  state: 'open' | 'closed';
+  merged: boolean;
+}
+
+interface PullRequestOptions {
+  remote?: string;
+}
+
+interface PullRequestResult {
+  number: number;
+  branch: string;
+  path: string;
+  title: string | null;
+  headBranch: string | null;
+  status: 'created' | 'updated' | 'up-to-date';
+}
+
+// Where each hosting service publishes pull/merge request heads
+const PULL_REQUEST_REFS = [
+  (n: number) => `refs/pull/${n}/head`,
+  (n: number) => `refs/merge-requests/${n}/head`
+];
+
+function pullRequestBranch(n: number): string {
+  return `pr/${n}`;
+}
+
+// Kept outside refs/remotes so a real remote branch called "pr/<n>" can't collide with it
+function pullRequestRef(remote: string, n: number): string {
+  return `refs/tm/pulls/${remote}/${n}`;
+}
+
+// PR details from the hosting API; null for unknown hosts or when the API is unavailable
+async function getPullRequestInfo(repo: RepoContext, bareGit: SimpleGit, remote: string, n: number): Promise<PullRequestInfo | null> {
+  const url = (await bareGit.raw(['remote', 'get-url', remote]).catch(() => '')).trim();
+  const location = parseRepoUrl(url);
   
-  // Parse "user/repo" format
-  const match = repoInput.match(/^([^\/]+)\/([^\/]+)$/);
-  if (!match) {
-    throw new Error('Invalid repository format. Use "user/repo" or full URL');
+  try {
+    const provider = location && await getProvider(repo.config, location.host);
+    return provider ? await provider.getPullRequest(location.path, n) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchPullRequest(bareGit: SimpleGit, remote: string, n: number): Promise<string> {
+  for (const sourceRef of PULL_REQUEST_REFS) {
+    try {
+      await bareGit.raw(['fetch', remote, `+${sourceRef(n)}:${pullRequestRef(remote, n)}`]);
+      return (await bareGit.raw(['rev-parse', pullRequestRef(remote, n)])).trim();
+    } catch {
+      // Not this hosting service's layout; try the next one
+    }
   }
   
-  const [, owner, repo] = match;
-  
-  try {
-    const octokit = new Octokit();
-    const { data } = await octokit.rest.repos.get({
-      owner,
-      repo
-    });
-    
-    return data.clone_url;
-  } catch (error) {
-    console.error(`Error resolving repository: ${(error as Error).message}`);
-    throw new Error(`Repository "${owner}/${repo}" not found or is not accessible`);
-  }
+  throw new TmError('PR_NOT_FOUND', `Pull request #${n} was not found on ${remote}`);
 }
 
-async function getDefaultBranchFromGitHub(owner: string, repo: string): Promise<string | null> {
-  try {
-    const octokit = new Octokit();
-    const { data } = await octokit.rest.repos.get({
-      owner,
-      repo
-    });
-    
-    return data.default_branch || null;
-  } catch (error) {
-    return null;
+function parsePullRequestNumber(value: string): number {
+  const n = Number(value.replace(/^#/, ''));
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new TmError('USAGE', `Invalid pull request number: ${value}`);
   }
+  return n;
 }
 
-async function getMainBranch(git: SimpleGit): Promise<string> {
-  try {
-    // Try to get default remote branch
-    const result = await git.raw(['symbolic-ref', 'refs/remotes/origin/HEAD']);
-    if (result) {
-      const branch = result.replace('refs/remotes/origin/', '').trim();
-      if (branch) {
-        return branch;
-      }
-    }
-  } catch {
-    // If symbolic-ref fails, try remote branch detection
+async function checkoutPullRequest(n: number, options: PullRequestOptions = {}): Promise<PullRequestResult> {
+  const repo = await requireRepo();
+  const remote = options.remote ?? repo.config.remote;
+  const branchName = pullRequestBranch(n);
+  
+  const existing = (await listRegisteredWorktrees(repo)).find(wt => wt.branch === branchName);
+  if (existing) {
+    throw new WorktreeExistsError(`Pull request #${n} is already checked out at ${existing.path}; use 'tm pr --update ${n}'`);
   }
   
   try {
-    // Get remote branches
-    const { remote } = await git.branch(['-r']);
-    const remoteBranches = Object.keys(remote)
-      .map(b => b.replace('origin/', '').trim())
-      .filter(b => b && !b.includes('HEAD'));
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
     
-    if (remoteBranches.length === 0) {
-      throw new Error('No remote branches found');
+    const head = await fetchPullRequest(bareGit, remote, n);
+    const info = await getPullRequestInfo(repo, bareGit, remote, n);
+    
+    // Reuse a branch left over from an earlier checkout of the same PR
+    await bareGit.raw(['branch', '--force', '--no-track', branchName, head]);
+    await bareGit.raw(['config', `branch.${branchName}.tmPullRequest`, `${remote}/${n}`]);
+    if (info) {
+      await bareGit.raw(['config', `branch.${branchName}.${BASE_CONFIG_KEY}`, `${remote}/${info.baseBranch}`]);
     }
     
-    // Fallback: look for common default branch names
-    const commonDefaults = ['main', 'master', 'develop', 'dev'];
-    for (const defaultName of commonDefaults) {
-      if (remoteBranches.includes(defaultName)) {
-        return defaultName;
-      }
+    if (info) {
+      log(`#${n}: ${info.title} (${info.headBranch})`);
     }
+    const { path } = await addWorktree(branchName, {}, 'pr');
     
-    // Last resort: return the first branch found
-    return remoteBranches[0];
+    return {
+      number: n,
+      branch: branchName,
+      path,
+      title: info?.title ?? null,
+      headBranch: info?.headBranch ?? null,
+      status: 'created'
+    };
   } catch (error) {
-    console.error('Error determining main branch:', error);
-    throw new Error('Could not determine main branch');
+    throw wrapError(error, 'PR_FAILED', `Checking out pull request #${n} failed`);
   }
 }
 
-async function clone(repoInput: string): Promise<void> {
+async function updatePullRequest(n: number, options: PullRequestOptions = {}): Promise<PullRequestResult> {
+  const repo = await requireRepo();
+  const branchName = pullRequestBranch(n);
+  
+  const worktree = (await listRegisteredWorktrees(repo)).find(wt => wt.branch === branchName);
+  if (!worktree || !worktree.exists) {
+    throw new WorktreeNotFoundError(`Pull request #${n} is not checked out; use 'tm pr ${n}'`);
+  }
+  
   try {
-    const repoUrl = await resolveRepoUrl(repoInput);
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
+      binary: 'git'
+    });
+    const worktreeGit = simpleGit({ baseDir: worktree.path, binary: 'git' });
     
-    // Extract repo name from URL for directory creation
-    const urlMatch = repoUrl.match(/\/([^\/]+)\.git$/);
-    if (!urlMatch) {
-      console.error('Invalid repository URL format');
-      process.exit(1);
-    }
+    const recorded = (await bareGit.raw(['config', `branch.${branchName}.tmPullRequest`]).catch(() => '')).trim();
+    const remote = options.remote ?? (recorded ? recorded.slice(0, recorded.lastIndexOf('/')) : repo.config.remote);
     
-    const repoName = urlMatch[1];
-    const repoPath = join(process.cwd(), repoName);
-    const barePath = join(repoPath, '.bare');
+    const previousHead = (await bareGit.raw(['rev-parse', '--verify', '--quiet', pullRequestRef(remote, n)]).catch(() => '')).trim();
+    const head = await fetchPullRequest(bareGit, remote, n);
+    const localHead = (await worktreeGit.raw(['rev-parse', 'HEAD'])).trim();
+    const info = await getPullRequestInfo(repo, bareGit, remote, n);
     
-    // Parse owner/repo from input for GitHub API call
-    let owner: string | undefined;
-    let repo: string | undefined;
-    if (!repoInput.startsWith('https://') && !repoInput.startsWith('git@') && !repoInput.endsWith('.git')) {
-      const match = repoInput.match(/^([^\/]+)\/([^\/]+)$/);
-      if (match) {
-        [, owner, repo] = match;
+    let status: PullRequestResult['status'] = 'up-to-date';
+    if (localHead !== head) {
+      if (localHead === previousHead) {
+        // No local commits on top, so a force-pushed PR can simply be followed; --keep preserves uncommitted changes
+        await worktreeGit.raw(['reset', '--keep', head]);
+      } else {
+        await worktreeGit.raw(['merge', '--ff-only', head]);
       }
+      status = 'updated';
+      await recordOperation(repo, 'pr --update', [
+        { action: 'updated', branch: branchName, path: worktree.path, before: localHead, after: head }
+      ]);
     }
     
-    if (await directoryExists(repoPath)) {
-      console.error(`Directory ${repoName} already exists`);
-      process.exit(1);
-    }
-    
-    // Create the directory structure
-    const mkdirProc = Bun.spawn(['mkdir', '-p', barePath], {
-      cwd: process.cwd(),
-      stdin: "inherit",
-      stdout: "inherit",
-      stderr: "inherit"
-    });
+    log(status === 'updated' ? `✓ #${n}: Updated to ${head.slice(0, 7)}` : `✓ #${n}: Already up to date`);
     
-    const exitCode = await mkdirProc.exited;
-    if (exitCode !== 0) {
-      throw new Error(`Failed to create directory structure`);
-    }
+    return {
+      number: n,
+      branch: branchName,
+      path: worktree.path,
+      title: info?.title ?? null,
+      headBranch: info?.headBranch ?? null,
+      status
+    };
+  } catch (error) {
+    throw wrapError(error, 'PR_UPDATE_FAILED', `Updating pull request #${n} failed`);
+  }
+}
 
-    // Clone directly to the target directory
-    const parentGit = simpleGit({
-      baseDir: process.cwd(),
+// Removes PR worktrees that are closed (per the hosting provider's API) or, without the API, already merged
+async function cleanPullRequests(options: PullRequestOptions = {}): Promise<BatchResult> {
+  const repo = await requireRepo();
+  
+  try {
+    const bareGit = simpleGit({
+      baseDir: repo.barePath,
       binary: 'git'
     });
     
-    await parentGit.clone(repoUrl, barePath, ['--bare']);
-    
-    let mainBranch: string;
+    const pullRequests = (await listRegisteredWorktrees(repo))
+      .filter(wt => /^pr\/\d+$/.test(wt.branch));
     
-    // Try to get default branch from GitHub API first
-    if (owner && repo) {
-      const githubDefault = await getDefaultBranchFromGitHub(owner, repo);
-      if (githubDefault) {
-        mainBranch = githubDefault;
+    const results: ItemResult[] = [];
+    for (const wt of pullRequests) {
+      const n = Number(wt.branch.slice('pr/'.length));
+      const recorded = (await bareGit.raw(['config', `branch.${wt.branch}.tmPullRequest`]).catch(() => '')).trim();
+      const remote = options.remote ?? (recorded ? recorded.slice(0, recorded.lastIndexOf('/')) : repo.config.remote);
+      
+      const info = await getPullRequestInfo(repo, bareGit, remote, n);
+      let reason: string | null = null;
+      if (info) {
+        reason = info.state === 'closed' ? (info.merged ? 'merged' : 'closed') : null;
       } else {
-        mainBranch = await getMainBranch(simpleGit({ baseDir: barePath, binary: 'git' }));
+        const target = `${remote}/${await getDefaultBranch(repo, bareGit)}`;
+        const merged = await gitSucceeds(repo.barePath, ['merge-base', '--is-ancestor', wt.branch, target]);
+        reason = merged ? `merged into ${target}` : null;
+      }
+      
+      if (!reason) {
+        log(`  #${n}: Open, kept`);
+        results.push({ branch: wt.branch, path: wt.path, status: 'kept', message: 'open' });
+        continue;
+      }
+      
+      try {
+        await remove(wt.branch, { deleteBranch: true }, 'pr --clean');
+        await bareGit.raw(['update-ref', '-d', pullRequestRef(remote, n)]);
+        log(`✓ #${n}: Removed (${reason})`);
+        results.push({ branch: wt.branch, path: wt.path, status: 'removed', message: reason });
+      } catch (error) {
+        log(`✗ #${n}: Failed - ${(error as Error).message}`);
+        results.push({ branch: wt.branch, path: wt.path, status: 'failed', message: (error as Error).message });
       }
-    } else {
-      mainBranch = await getMainBranch(simpleGit({ baseDir: barePath, binary: 'git' }));
     }
     
-    const bareGit = simpleGit({
-      baseDir: barePath,
-      binary: 'git'
-    });
-
-    // simple-git doesn't have worktree methods, need to use raw for worktree
-    await bareGit.raw(['worktree', 'add', join(repoPath, mainBranch), mainBranch]);
-    
-    const emptyHooks: PostHookConfig = { hooks: [] };
-    await Bun.write(join(repoPath, 'post-hook.json'), JSON.stringify(emptyHooks, null, 2));
-    
-    console.log(`Cloned ${repoInput} (${repoUrl}) into ${repoName}/ with worktree structure`);
-    console.log(`Main branch '${mainBranch}' created at ${repoName}/${mainBranch}`);
+    if (pullRequests.length === 0) {
+      log('No pull request worktrees found');
+    }
     
-    await runPostHooks(repoPath);
+    return { results };
   } catch (error) {
-    console.error(`Clone failed: ${(error as Error).message}`);
-    process.exit(1);
+    throw wrapError(error, 'PR_CLEAN_FAILED', 'Cleaning pull requests failed');
   }
 }
 
-async function directoryExists(path: string): Promise<boolean> {
+async function switchWorktree(name: string): Promise<WorktreeResult> {
+  const repo = await requireRepo();
+  const worktree = findWorktree(repo, await listRegisteredWorktrees(repo), name);
+  
+  if (!worktree || !worktree.exists) {
+    throw new WorktreeNotFoundError([
+      `Worktree '${name}' does not exist`,
+      `Use 'tm add ${name}' to create it from an existing branch`,
+      `Or use 'tm branch ${name}' to create a new branch`
+    ].join('\n'));
+  }
+  
+  const branchName = worktree.branch;
+  const branchPath = worktree.path;
+  
+  // Output the path - useful for shell wrappers like:
+  //   cd $(tm switch branch-name)
+  log(branchPath);
+  
+  const base = await resolveBaseBranch(repo, simpleGit({ baseDir: repo.barePath, binary: 'git' }), branchName);
+  await runHooks('post-switch', {
+    repoRoot: repo.root,
+    branch: branchName,
+    worktreePath: branchPath,
+    baseBranch: base,
+    toStderr: true
+  });
+  
+  return { branch: branchName, path: branchPath, baseBranch: base ?? null };
+}
+
+// Journal of the changes tm made to branches and worktrees, so `tm undo` can reverse them
+export interface JournalChange {
+  action: 'created' | 'removed' | 'updated' | 'moved';
+  branch: string;
+  path: string;
+  // Branch tip (or detached HEAD) before and after; null where there was none
+  before: string | null;
+  after: string | null;
+  // Where a moved worktree was
+  previousBranch?: string;
+  previousPath?: string;
+  // Stash commit holding the uncommitted changes of a forced remove
+  saved?: string;
+  // branch.<name>.* settings of a deleted branch, keyed by setting
+  config?: Record<string, string>;
+}
+
+export interface JournalEntry {
+  id: number;
+  command: string;
+  time: string;
+  changes: JournalChange[];
+  undone?: boolean;
+}
+
+// Older entries are dropped; git's gc only keeps unreachable commits for a few weeks anyway
+const JOURNAL_LIMIT = 200;
+
+function journalPath(barePath: string): string {
+  return join(barePath, 'tm-journal.json');
+}
+
+async function readJournal(barePath: string): Promise<JournalEntry[]> {
   try {
-    const stats = await fs.lstat(path);
-    return stats.isDirectory();
+    return JSON.parse(await fs.readFile(journalPath(barePath), 'utf8'));
   } catch {
-    return false;
+    return [];
+  }
+}
+
+async function writeJournal(barePath: string, entries: JournalEntry[]): Promise<void> {
+  await Bun.write(journalPath(barePath), JSON.stringify(entries.slice(-JOURNAL_LIMIT), null, 2));
+}
+
+// Never fails the operation it records, which has already happened
+async function recordOperation(repo: RepoContext, command: string, changes: JournalChange[]): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+  try {
+    const entries = await readJournal(repo.barePath);
+    const id = (entries[entries.length - 1]?.id ?? 0) + 1;
+    await writeJournal(repo.barePath, [...entries, { id, command, time: new Date().toISOString(), changes }]);
+  } catch (error) {
+    warn(`Warning: could not record '${command}' in the journal: ${(error as Error).message}`);
+  }
+}
+
+async function branchTip(repo: RepoContext, branchName: string): Promise<string | null> {
+  if (!branchName) {
+    return null;
   }
+  const { code, output } = await runGit(repo.barePath, ['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`]);
+  return code === 0 ? output : null;
 }
 
-async function branch(branchName: string): Promise<void> {
-  const currentPath = process.cwd();
-  let barePath = join(currentPath, '.bare');
+// The branch.<name>.* settings (upstream, tmBase, tmStart, tmSparse, ...) that deleting the branch drops
+async function getBranchConfig(repo: RepoContext, branchName: string): Promise<Record<string, string>> {
+  const prefix = `branch.${branchName}.`;
+  const output = await simpleGit({ baseDir: repo.barePath, binary: 'git' }).raw(['config', '--local', '--null', '--list']).catch(() => '');
+  const config: Record<string, string> = {};
   
-  // Check current directory for .bare, then check parent directory
-  if (!(await directoryExists('.bare'))) {
-    // Not in main repo directory, check if we're in a worktree
-    const parentPath = join(currentPath, '..');
-    const parentBarePath = join(parentPath, '.bare');
-    
-    if (await directoryExists(parentBarePath)) {
-      // We're in a worktree directory, use parent's .bare
-      barePath = parentBarePath;
-    } else {
-      console.error('Not in a tm-managed repository (no .bare directory found)');
-      console.error('Looking for .bare in current and parent directories');
-      process.exit(1);
+  for (const entry of output.split('\0')) {
+    const key = entry.slice(0, entry.indexOf('\n'));
+    // Setting names have no dots, which keeps branch "a" from matching the settings of "a.b"
+    if (key.startsWith(prefix) && !key.slice(prefix.length).includes('.')) {
+      config[key.slice(prefix.length)] = entry.slice(key.length + 1);
+    }
+  }
+  
+  return config;
+}
+
+function shortSha(sha: string | null): string {
+  return sha ? sha.slice(0, 7) : 'nothing';
+}
+
+function describeChange(change: JournalChange): string {
+  switch (change.action) {
+    case 'created':
+      return `created ${change.before === null ? 'branch and worktree' : 'worktree'} at ${shortSha(change.after)}`;
+    case 'removed':
+      return `removed ${change.after === null && change.branch ? 'worktree and branch' : 'worktree'} at ${shortSha(change.before)}`
+        + (change.saved ? `, uncommitted changes stashed as ${shortSha(change.saved)}` : '');
+    case 'updated':
+      return `moved from ${shortSha(change.before)} to ${shortSha(change.after)}`;
+    case 'moved':
+      return `renamed from ${change.previousBranch}`;
+  }
+}
+
+export interface LogOptions {
+  // Most recent entries to show (default: 20)
+  limit?: number;
+}
+
+export interface LogRecord extends JournalChange {
+  id: number;
+  command: string;
+  time: string;
+  undone: boolean;
+}
+
+export interface LogResult {
+  changes: LogRecord[];
+}
+
+async function showLog(options: LogOptions = {}): Promise<LogResult> {
+  const repo = await requireRepo();
+  const entries = (await readJournal(repo.barePath)).slice(-(options.limit ?? 20)).reverse();
+  
+  if (entries.length === 0) {
+    log('No operations recorded yet');
+  }
+  for (const entry of entries) {
+    const time = new Date(entry.time).toLocaleString();
+    log(`${entry.id}  ${time}  tm ${entry.command}${entry.undone ? '  (undone)' : ''}`);
+    for (const change of entry.changes) {
+      log(`    ${change.branch || change.path}: ${describeChange(change)}`);
     }
   }
   
-  const actualRepoPath = barePath.replace('/.bare', '');
-  const branchPath = join(actualRepoPath, branchName);
+  return {
+    changes: entries.flatMap(entry => entry.changes.map(change =>
+      ({ id: entry.id, command: entry.command, time: entry.time, undone: !!entry.undone, ...change })))
+  };
+}
+
+export interface UndoOptions {
+  // Reset branches that moved on since the operation, and remove created worktrees despite unsaved work
+  force?: boolean;
+}
+
+export interface UndoResult extends BatchResult {
+  id: number;
+  command: string;
+}
+
+// Reverses an operation from the journal (default: the latest one not undone yet)
+async function undo(id?: number, options: UndoOptions = {}): Promise<UndoResult> {
+  const repo = await requireRepo();
+  const entries = await readJournal(repo.barePath);
+  const entry = id === undefined
+    ? [...entries].reverse().find(e => !e.undone && !e.command.startsWith('undo '))
+    : entries.find(e => e.id === id);
+  
+  if (!entry) {
+    throw new TmError('NOTHING_TO_UNDO', id === undefined ? 'No operation left to undo' : `No operation ${id} in the journal; see 'tm log'`);
+  }
+  if (entry.undone) {
+    throw new TmError('ALREADY_UNDONE', `Operation ${entry.id} (tm ${entry.command}) was already undone`);
+  }
+  
+  log(`Undoing ${entry.id}: tm ${entry.command}`);
+  const label = `undo ${entry.id}`;
+  const resets: JournalChange[] = [];
+  const results: ItemResult[] = [];
   
-  if (await directoryExists(branchPath)) {
-    console.error(`Worktree ${branchName} already exists`);
-    process.exit(1);
+  // Latest change first, the reverse of the order they were made in
+  for (const change of [...entry.changes].reverse()) {
+    results.push(await undoChange(repo, change, label, options, resets).catch((error: Error): ItemResult =>
+      ({ branch: change.branch, path: change.path, status: 'failed', message: error.message })));
   }
   
-  try {
-    const bareGit = simpleGit({
-      baseDir: barePath,
-      binary: 'git'
-    });
+  await recordOperation(repo, label, resets);
+  
+  for (const result of results) {
+    log(`  ${result.branch || result.path}  ${result.status}${result.message ? ` (${result.message})` : ''}`);
+  }
+  
+  // Failed changes can be retried by undoing the same operation again
+  if (!hasProblems({ results })) {
+    const latest = await readJournal(repo.barePath);
+    await writeJournal(repo.barePath, latest.map(e => e.id === entry.id ? { ...e, undone: true } : e));
+  }
+  
+  return { id: entry.id, command: entry.command, results };
+}
 
-    // Create branch in the bare repo (not checkout, just branch)
-    await bareGit.branch([branchName]);
+// Resets are added to `resets`; the removes, adds and moves record themselves under `label`
+async function undoChange(repo: RepoContext, change: JournalChange, label: string, options: UndoOptions, resets: JournalChange[]): Promise<ItemResult> {
+  const item = (status: string, message: string | null = null): ItemResult =>
+    ({ branch: change.branch, path: change.path, status, message });
+  const bareGit = simpleGit({ baseDir: repo.barePath, binary: 'git' });
+  const worktrees = await listRegisteredWorktrees(repo);
+  
+  switch (change.action) {
+    case 'created': {
+      if (!worktrees.some(wt => wt.path === change.path)) {
+        return item('skipped', 'already removed');
+      }
+      // Still refuses to lose work, unless forced
+      const deleteBranch = change.before === null && !!change.branch;
+      await remove(change.path, { deleteBranch, requireMerged: false, force: options.force }, label);
+      return item('undone', `removed the worktree${deleteBranch ? ' and branch' : ''}`);
+    }
     
-    // Create worktree for the new branch
-    await bareGit.raw(['worktree', 'add', branchPath, branchName]);
+    case 'removed': {
+      if (worktrees.some(wt => wt.path === change.path || (change.branch && wt.branch === change.branch))) {
+        return item('skipped', 'the worktree exists');
+      }
+      if (!change.before) {
+        return item('failed', 'no commit was recorded for it');
+      }
+      
+      let path = change.path;
+      let restoredAt = change.before;
+      let note = '';
+      if (change.branch) {
+        const tip = await branchTip(repo, change.branch);
+        if (!tip) {
+          // Deleting the branch dropped its upstream and recorded base, so they are restored too
+          await bareGit.raw(['branch', change.branch, change.before]);
+          for (const [setting, value] of Object.entries(change.config ?? {})) {
+            await bareGit.raw(['config', `branch.${change.branch}.${setting}`, value]);
+          }
+        } else if (tip !== change.before && options.force) {
+          await bareGit.raw(['branch', '--force', change.branch, change.before]);
+        } else if (tip !== change.before) {
+          restoredAt = tip;
+          note = `; ${change.branch} has moved on since ${shortSha(change.before)}, use --force to reset it`;
+        }
+        ({ path } = await addWorktree(change.branch, {}, label));
+        if (tip && tip !== restoredAt) {
+          resets.push({ action: 'updated', branch: change.branch, path, before: tip, after: restoredAt });
+        }
+      } else {
+        await bareGit.raw(['worktree', 'add', '--detach', path, change.before]);
+      }
+      
+      if (change.saved) {
+        const { code, output } = await runGit(path, ['stash', 'apply', change.saved]);
+        if (code !== 0) {
+          return item('conflicted', `restored at ${shortSha(restoredAt)}, but the stashed changes did not apply: ${output.split('\n').pop()}`);
+        }
+        // Drop the stash entry now that its changes are back
+        const stashes = (await runGit(path, ['stash', 'list', '--format=%H'])).output.split('\n');
+        const index = stashes.indexOf(change.saved);
+        if (index !== -1) {
+          await runGit(path, ['stash', 'drop', `stash@{${index}}`]);
+        }
+      }
+      return item('undone', `restored at ${shortSha(restoredAt)}${note}`);
+    }
     
-    console.log(`Created branch '${branchName}' and worktree at ${branchPath}`);
+    case 'updated': {
+      const worktree = worktrees.find(wt => wt.branch === change.branch && wt.exists);
+      if (!worktree || !change.before) {
+        return item('failed', `${change.branch} has no worktree`);
+      }
+      const head = (await runGit(worktree.path, ['rev-parse', 'HEAD'])).output;
+      if (head === change.before) {
+        return item('skipped', `already at ${shortSha(change.before)}`);
+      }
+      if (head !== change.after && !options.force) {
+        return item('failed', `moved on to ${shortSha(head)} since; use --force to reset it anyway`);
+      }
+      // --keep keeps uncommitted changes, and refuses when the reset would overwrite them
+      const { code, output } = await runGit(worktree.path, ['reset', '--keep', change.before]);
+      if (code !== 0) {
+        return item('failed', output.split('\n').pop() ?? null);
+      }
+      resets.push({ action: 'updated', branch: change.branch, path: worktree.path, before: head, after: change.before });
+      return item('undone', `reset to ${shortSha(change.before)}`);
+    }
     
-    await runPostHooks(branchPath);
-  } catch (error) {
-    console.error(`Branch creation failed: ${(error as Error).message}`);
-    process.exit(1);
+    case 'moved': {
+      if (!change.previousBranch) {
+        return item('failed', 'the previous name was not recorded');
+      }
+      await move(change.branch, change.previousBranch, {}, label);
+      return item('undone', `renamed back to ${change.previousBranch}`);
+    }
+  }
+}
+
+export interface WorktreeManagerOptions {
+  // Any directory inside the repository, or where clone creates it. Default: process.cwd()
+  cwd?: string;
+  // Receives the progress messages the CLI prints
+  onProgress?: ProgressListener;
+}
+
+// Programmatic API; the CLI is a thin layer over it
+export class WorktreeManager {
+  private readonly cwd: string;
+  private readonly onProgress?: ProgressListener;
+  
+  constructor(options: WorktreeManagerOptions = {}) {
+    this.cwd = resolve(options.cwd ?? process.cwd());
+    this.onProgress = options.onProgress;
+  }
+  
+  clone(repo: string, options: CloneOptions = {}): Promise<CloneResult> {
+    return this.run(() => clone(repo, options));
+  }
+  
+  createBranch(name: string, options: BranchOptions = {}): Promise<CreateWorktreeResult> {
+    return this.run(() => branch(name, options));
+  }
+  
+  addWorktree(branchName: string, options: AddOptions = {}): Promise<CreateWorktreeResult> {
+    return this.run(() => addWorktree(branchName, options));
+  }
+  
+  remove(name: string, options: RemoveOptions = {}): Promise<RemoveResult> {
+    return this.run(() => remove(name, options));
+  }
+  
+  move(name: string, newName: string, options: MoveOptions = {}): Promise<MoveResult> {
+    return this.run(() => move(name, newName, options));
+  }
+  
+  // Removes each worktree in turn, reporting failures per worktree instead of throwing
+  removeAll(names: string[], options: RemoveOptions = {}): Promise<BatchResult> {
+    return this.run(() => removeMany(names, options));
+  }
+  
+  list(options: ListOptions = {}): Promise<WorktreeStatus[]> {
+    return this.run(async () => {
+      const repo = await requireRepo();
+      try {
+        return await getWorktreeStatuses(repo, options);
+      } catch (error) {
+        throw wrapError(error, 'LIST_FAILED', 'List failed');
+      }
+    });
+  }
+  
+  prune(options: PruneOptions = {}): Promise<BatchResult> {
+    return this.run(() => pruneWorktrees(options));
+  }
+  
+  lock(name: string, reason?: string): Promise<LockResult> {
+    return this.run(() => lockWorktree(name, reason));
+  }
+  
+  unlock(name: string): Promise<LockResult> {
+    return this.run(() => unlockWorktree(name));
+  }
+  
+  sync(options: SyncOptions = {}): Promise<BatchResult> {
+    return this.run(() => syncWorktrees(options));
+  }
+  
+  clean(options: CleanOptions = {}): Promise<BatchResult> {
+    return this.run(() => clean(options));
+  }
+  
+  // Applies a sparse profile to the worktree (default: the one containing cwd); null checks out everything
+  sparse(profile: string | null, name?: string): Promise<SparseResult> {
+    return this.run(() => setSparseProfile(profile, name));
+  }
+  
+  // Allocates any missing values for the worktree (default: the one containing cwd) and returns them
+  env(name?: string): Promise<EnvResult> {
+    return this.run(() => showEnv(name));
+  }
+  
+  // The journal of operations that changed branches or worktrees, latest first
+  log(options: LogOptions = {}): Promise<LogResult> {
+    return this.run(() => showLog(options));
+  }
+  
+  // Reverses an operation from the journal (default: the latest one not undone yet)
+  undo(id?: number, options: UndoOptions = {}): Promise<UndoResult> {
+    return this.run(() => undo(id, options));
+  }
+  
+  // Runs the command in each matching worktree; its output arrives as progress events
+  foreach(command: string[], options: ForeachOptions = {}): Promise<ForeachResult> {
+    return this.run(() => foreachWorktree(command, options));
+  }
+  
+  // Path of the worktree for a branch name, a name without branchPrefix, or a directory name
+  resolvePath(name: string): Promise<string> {
+    return this.run(async () => {
+      const repo = await requireRepo();
+      const worktree = findWorktree(repo, await listRegisteredWorktrees(repo), name);
+      if (!worktree) {
+        throw new WorktreeNotFoundError(`Worktree '${name}' does not exist`);
+      }
+      return worktree.path;
+    });
+  }
+  
+  private run<T>(operation: () => Promise<T>): Promise<T> {
+    return operationContext.run({ cwd: this.cwd, onProgress: this.onProgress }, operation);
+  }
+}
+
+// Shell integration: `tm shell-init <shell>` prints a `tm` function that cds into the
+// directory the real binary writes to $TM_CD_FILE, plus completions via `tm __complete`
+type Shell = 'bash' | 'zsh' | 'fish';
+
+const SHELLS: Shell[] = ['bash', 'zsh', 'fish'];
+
+interface ShellInitResult {
+  shell: Shell;
+  script: string;
+}
+
+const SHELL_SCRIPTS: Record<Shell, string> = {
+  bash: `tm() {
+  local tm_cd_file tm_status
+  tm_cd_file="$(mktemp "\${TMPDIR:-/tmp}/tm-cd.XXXXXX")" || return 1
+  TM_CD_FILE="$tm_cd_file" command tm "$@"
+  tm_status=$?
+  if [ -s "$tm_cd_file" ]; then
+    cd -- "$(cat "$tm_cd_file")" || tm_status=$?
+  fi
+  rm -f "$tm_cd_file"
+  return $tm_status
+}
+
+_tm_complete() {
+  local IFS=$'\\n'
+  COMPREPLY=($(command tm __complete "\${COMP_WORDS[@]:0:$((COMP_CWORD + 1))}" 2>/dev/null))
+}
+
+complete -o default -F _tm_complete tm`,
+
+  zsh: `tm() {
+  local tm_cd_file tm_status
+  tm_cd_file="$(mktemp "\${TMPDIR:-/tmp}/tm-cd.XXXXXX")" || return 1
+  TM_CD_FILE="$tm_cd_file" command tm "$@"
+  tm_status=$?
+  if [[ -s "$tm_cd_file" ]]; then
+    cd -- "$(<"$tm_cd_file")" || tm_status=$?
+  fi
+  rm -f "$tm_cd_file"
+  return $tm_status
+}
+
+_tm() {
+  local -a candidates
+  candidates=("\${(@f)$(command tm __complete "\${(@)words[1,CURRENT]}" 2>/dev/null)}")
+  candidates=("\${(@)candidates:#}")
+  if (( \${#candidates} )); then
+    compadd -a candidates
+  else
+    _files
+  fi
+}
+
+(( $+functions[compdef] )) && compdef _tm tm`,
+
+  fish: `function tm
+    set -l tm_cd_file (mktemp)
+    or return 1
+    TM_CD_FILE=$tm_cd_file command tm $argv
+    set -l tm_status $status
+    if test -s $tm_cd_file
+        cd (cat $tm_cd_file)
+        or set tm_status $status
+    end
+    rm -f $tm_cd_file
+    return $tm_status
+end
+
+complete -c tm -f -a '(command tm __complete (commandline -opc) (commandline -ct) 2>/dev/null)'`
+};
+
+function shellInit(shell: string | undefined): ShellInitResult {
+  if (!shell || !SHELLS.includes(shell as Shell)) {
+    usage(
+      `Usage: tm shell-init <${SHELLS.join('|')}>`,
+      'Prints a tm wrapper that cds into new or switched-to worktrees, plus completions:',
+      '  eval "$(tm shell-init bash)"    # ~/.bashrc',
+      '  eval "$(tm shell-init zsh)"     # ~/.zshrc',
+      '  tm shell-init fish | source     # ~/.config/fish/config.fish'
+    );
   }
+  
+  const script = SHELL_SCRIPTS[shell as Shell];
+  log(script);
+  
+  return { shell: shell as Shell, script };
 }
 
-async function remove(branchName: string, options: RemoveOptions = {}): Promise<void> {
-  const currentPath = process.cwd();
-  let barePath = join(currentPath, '.bare');
+// Commands whose result path the shell wrapper cds into
+const DIRECTORY_CHANGE_COMMANDS = ['clone', 'branch', 'add', 'switch', 'pr', 'convert'];
+
+// Where the shell wrapper should cd after a successful command, if anywhere
+async function directoryChangeTarget(command: string | undefined, result: object, startDir: string): Promise<string | undefined> {
+  // Follow the current worktree to its new location
+  if (command === 'mv' && 'previousPath' in result && typeof result.previousPath === 'string'
+      && 'path' in result && typeof result.path === 'string' && isInsidePath(startDir, result.previousPath)) {
+    return join(result.path, relative(result.previousPath, startDir));
+  }
   
-  // Check current directory for .bare, then check parent directory
-  if (!(await directoryExists('.bare'))) {
-    // Not in main repo directory, check if we're in a worktree
-    const parentPath = join(currentPath, '..');
-    const parentBarePath = join(parentPath, '.bare');
-    
-    if (await directoryExists(parentBarePath)) {
-      // We're in a worktree directory, use parent's .bare
-      barePath = parentBarePath;
-    } else {
-      console.error('Not in a tm-managed repository (no .bare directory found)');
-      console.error('Looking for .bare in current and parent directories');
-      process.exit(1);
+  // The shell's directory was removed (e.g. `tm rm` of the current worktree)
+  if (!(await directoryExists(startDir))) {
+    let dir = dirname(startDir);
+    while (!(await directoryExists(dir))) {
+      dir = dirname(dir);
     }
+    return dir;
   }
   
-  const actualRepoPath = barePath.replace('/.bare', '');
-  const branchPath = join(actualRepoPath, branchName);
-  
-  if (!(await directoryExists(branchPath))) {
-    console.error(`Worktree ${branchName} does not exist`);
-    process.exit(1);
+  if (!command || !DIRECTORY_CHANGE_COMMANDS.includes(command) || !('path' in result) || typeof result.path !== 'string') {
+    return undefined;
+  }
+  if ('status' in result && result.status === 'updated') {
+    return undefined;
   }
   
-  try {
-    const bareGit = simpleGit({
-      baseDir: barePath,
-      binary: 'git'
-    });
+  return await directoryExists(result.path) ? result.path : undefined;
+}
 
-    // simple-git doesn't have worktree methods, need to use raw for worktree
-    await bareGit.raw(['worktree', 'remove', branchPath]);
-    console.log(`Removed worktree at ${branchPath}`);
+const COMMANDS = ['clone', 'convert', 'branch', 'add', 'rm', 'mv', 'lock', 'unlock', 'list', 'prune', 'clean', 'sync', 'foreach', 'exec', 'env', 'sparse', 'log', 'undo', 'switch', 'pr', 'doctor', 'shell-init'];
+
+const COMMAND_FLAGS: Record<string, string[]> = {
+  convert: ['--dry-run'],
+  branch: ['--from', '--track', '--no-track', '--like', '--sparse', '--no-submodules', '--no-lfs'],
+  clone: ['--upstream', '--depth', '--filter', '--single-branch', '--no-submodules', '--no-lfs'],
+  add: ['--like', '--remote', '--sparse', '--no-submodules', '--no-lfs'],
+  rm: ['-d', '-D', '--force'],
+  mv: ['--remote'],
+  list: ['--fast', '--cached'],
+  clean: ['--dry-run', '--yes', '--older-than', '--force'],
+  sync: ['--strategy', '--autostash', '--only', '--exclude', '--force', '--all-remotes'],
+  prune: ['--force'],
+  lock: ['--reason'],
+  sparse: ['--off'],
+  log: ['-n'],
+  undo: ['--force'],
+  foreach: ['--parallel', '--only', '--exclude', '--dirty', '--clean', '--fail-fast', '--group'],
+  exec: ['--parallel', '--only', '--exclude', '--dirty', '--clean', '--fail-fast', '--group'],
+  pr: ['--remote', '--update', '--clean'],
+  doctor: ['--fix']
+};
+
+async function completeBranches(repo: RepoContext): Promise<string[]> {
+  const bareGit = simpleGit({ baseDir: repo.barePath, binary: 'git' });
+  const refs = (await bareGit.raw(['for-each-ref', '--format=%(refname)', 'refs/heads/', 'refs/remotes/']))
+    .split('\n')
+    .filter(ref => ref && !ref.endsWith('/HEAD'));
+  
+  // The main remote's branches complete without their remote, the way `tm add` resolves them
+  const names = refs.map(ref => ref.startsWith('refs/heads/')
+    ? ref.slice('refs/heads/'.length)
+    : ref.startsWith(`refs/remotes/${repo.config.remote}/`)
+      ? ref.split('/').slice(3).join('/')
+      : ref.slice('refs/remotes/'.length));
+  
+  // Like pickBranch, leave out branches `tm add` would refuse because they have a worktree
+  const checkedOut = new Set((await listRegisteredWorktrees(repo)).map(wt => wt.branch));
+  return [...new Set(names)].filter(name => !checkedOut.has(name));
+}
+
+async function completeRefs(repo: RepoContext): Promise<string[]> {
+  const bareGit = simpleGit({ baseDir: repo.barePath, binary: 'git' });
+  return (await bareGit.raw(['for-each-ref', '--format=%(refname:short)', 'refs/heads/', 'refs/remotes/', 'refs/tags/']))
+    .split('\n')
+    .filter(ref => ref && !ref.endsWith('/HEAD'));
+}
+
+async function completeWorktrees(repo: RepoContext): Promise<string[]> {
+  return (await listRegisteredWorktrees(repo))
+    .map(wt => wt.branch || basename(wt.path));
+}
+
+// Candidates for the last word, given the command line words (program name first)
+async function complete(words: string[]): Promise<string[]> {
+  const [, ...previous] = words.slice(0, -1);
+  const current = words[words.length - 1] ?? '';
+  const [command] = previous;
+  const previousWord = previous[previous.length - 1];
+  
+  const candidates = async (): Promise<string[]> => {
+    if (!command) {
+      return current.startsWith('-') ? ['--json', '--porcelain', '--version'] : COMMANDS;
+    }
+    if (current.startsWith('-')) {
+      return [...(COMMAND_FLAGS[command] ?? []), '--json', '--porcelain'];
+    }
+    if (command === 'shell-init') {
+      return previous.length === 1 ? SHELLS : [];
+    }
     
-    if (options.deleteBranch) {
-      await bareGit.branch(['-D', branchName]);
-      console.log(`Deleted branch '${branchName}'`);
+    const repo = await requireRepo();
+    switch (previousWord) {
+      case '--from':
+        return completeRefs(repo);
+      case '--like':
+        return completeWorktrees(repo);
+      case '--strategy':
+        return SYNC_STRATEGIES;
+      case '--remote':
+        return (await simpleGit({ baseDir: repo.barePath, binary: 'git' }).getRemotes()).map(r => r.name);
+      case '--sparse':
+        return Object.keys(repo.config.sparse);
+      case '--filter':
+        return CLONE_FILTERS;
     }
-  } catch (error) {
-    console.error(`Remove failed: ${(error as Error).message}`);
-    process.exit(1);
+    switch (command) {
+      case 'switch':
+      case 'rm':
+      case 'env':
+      case 'lock':
+      case 'unlock':
+        return completeWorktrees(repo);
+      case 'mv':
+        return previous.length === 1 ? completeWorktrees(repo) : [];
+      case 'sparse':
+        return previous.length === 1 && !previous.includes('--off') ? Object.keys(repo.config.sparse) : completeWorktrees(repo);
+      case 'undo':
+        return (await readJournal(repo.barePath)).filter(entry => !entry.undone).map(entry => String(entry.id)).reverse();
+      case 'add':
+        return completeBranches(repo);
+      default:
+        return [];
+    }
+  };
+  
+  try {
+    return (await candidates()).filter(candidate => candidate.startsWith(current));
+  } catch {
+    // Completion must stay quiet outside a tm repository
+    return [];
   }
 }
 
-interface WorktreeInfo {
-  path: string;
-  branch: string;
-  isBare: boolean;
-  exists: boolean;
+// Interactive picker for switch, rm and add when no name is given in a terminal
+interface PickerItem {
+  label: string;
+  detail: string;
+  value: string;
 }
 
-async function getBarePath(): Promise<string | null> {
-  const currentPath = process.cwd();
-  
-  if (await directoryExists(join(currentPath, '.bare'))) {
-    return join(currentPath, '.bare');
-  }
-  
-  const parentPath = join(currentPath, '..');
-  const parentBarePath = join(parentPath, '.bare');
+interface PickerOptions {
+  prompt: string;
+  multi?: boolean;
+}
+
+// Never inside WorktreeManager calls, which must not wait for keyboard input
+function isInteractive(): boolean {
+  return !operationContext.getStore() && !!process.stdin.isTTY && !!process.stdout.isTTY;
+}
+
+// Subsequence match, scoring consecutive characters and matches at word starts higher
+function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
   
-  if (await directoryExists(parentBarePath)) {
-    return parentBarePath;
+  let score = 0;
+  let last = -1;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, last + 1);
+    if (index === -1) {
+      return null;
+    }
+    score += index === last + 1 ? 3 : 1;
+    if (index === 0 || '/-_.'.includes(haystack[index - 1])) {
+      score += 2;
+    }
+    last = index;
   }
   
-  return null;
+  return score;
 }
 
-async function listWorktrees(): Promise<void> {
-  const barePath = await getBarePath();
+// Draws on stderr so stdout only holds the command's result; resolves to the chosen values
+function pick(items: PickerItem[], options: PickerOptions): Promise<string[]> {
+  const out = process.stderr;
+  const stdin = process.stdin;
+  const columns = process.stdout.columns || 80;
+  const maxRows = Math.max(3, Math.min(15, (process.stdout.rows || 24) - 3));
+  const labelWidth = Math.max(...items.map(item => item.label.length));
+  const hint = options.multi
+    ? 'up/down move, tab select, enter confirm, esc cancel'
+    : 'up/down move, enter confirm, esc cancel';
   
-  if (!barePath) {
-    console.error('Not in a tm-managed repository (no .bare directory found)');
-    process.exit(1);
-  }
+  let query = '';
+  let cursor = 0;
+  let offset = 0;
+  const selected = new Set<string>();
   
-  try {
-    const bareGit = simpleGit({
-      baseDir: barePath,
-      binary: 'git'
-    });
+  const matches = (): PickerItem[] => items
+    .map(item => ({ item, score: fuzzyScore(query, item.label) }))
+    .filter((match): match is { item: PickerItem; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(match => match.item);
+  
+  // Redraws from the prompt line down, then parks the cursor after the query
+  const render = (visible: PickerItem[]): void => {
+    cursor = Math.min(cursor, Math.max(visible.length - 1, 0));
+    offset = Math.min(Math.max(offset, cursor - maxRows + 1), cursor);
     
-    // Get worktree list
-    const worktreeOutput = await bareGit.raw(['worktree', 'list', '--porcelain']);
-    const worktrees: WorktreeInfo[] = [];
-    
-    const entries = worktreeOutput.trim().split('\n\n');
-    for (const entry of entries) {
-      const lines = entry.split('\n');
-      const pathLine = lines.find(l => l.startsWith('worktree '));
-      const branchLine = lines.find(l => l.startsWith('branch '));
-      const bareLine = lines.find(l => l === 'bare');
-      
-      if (pathLine) {
-        const path = pathLine.replace('worktree ', '');
-        const branch = branchLine ? branchLine.replace('branch ', '').replace('refs/heads/', '') : '(detached)';
-        const isBare = !!bareLine;
-        const exists = await directoryExists(path);
-        
-        worktrees.push({ path, branch, isBare, exists });
-      }
+    const prompt = `${options.prompt} ${query}`;
+    const lines = [prompt];
+    for (const [i, item] of visible.slice(offset, offset + maxRows).entries()) {
+      const pointer = offset + i === cursor ? '>' : ' ';
+      const check = options.multi ? (selected.has(item.value) ? '[x] ' : '[ ] ') : '';
+      lines.push(`${pointer} ${check}${item.label.padEnd(labelWidth)}  ${item.detail}`.trimEnd());
     }
+    lines.push(`  ${visible.length}/${items.length}  ${hint}`);
     
-    const actualRepoPath = barePath.replace('/.bare', '');
-    const currentCwd = process.cwd();
+    const clipped = lines.map(line => line.slice(0, columns - 1));
+    out.write(`\r\x1b[J${clipped.join('\n')}\x1b[${clipped.length - 1}A\r\x1b[${Math.min(prompt.length, columns - 1)}C`);
+  };
+  
+  return new Promise((resolvePick, rejectPick) => {
+    let visible = matches();
     
-    console.log('Worktrees:');
-    console.log('');
+    const finish = (values: string[] | null): void => {
+      stdin.removeListener('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      out.write('\r\x1b[J');
+      if (values) {
+        resolvePick(values);
+      } else {
+        rejectPick(new TmError('CANCELLED', 'Cancelled'));
+      }
+    };
     
-    for (const wt of worktrees) {
-      if (wt.isBare) continue;
-      
-      const branchName = wt.branch;
-      const worktreeGit = simpleGit({ baseDir: wt.path, binary: 'git' });
+    const onData = (data: Buffer): void => {
+      const key = data.toString('utf8');
       
-      // Check status
-      let status = '';
-      try {
-        const statusSummary = await worktreeGit.status();
-        if (statusSummary.files.length > 0) {
-          status = ` [${statusSummary.files.length} modified]`;
+      if (key === '\x03' || key === '\x1b') {
+        return finish(null);
+      }
+      if (key === '\r' || key === '\n') {
+        if (options.multi && selected.size > 0) {
+          return finish(items.filter(item => selected.has(item.value)).map(item => item.value));
         }
-      } catch {
-        // Ignore status errors
+        if (visible[cursor]) {
+          return finish([visible[cursor].value]);
+        }
+        return;
       }
       
-      // Check if ahead/behind
-      let syncStatus = '';
-      try {
-        const branchSummary = await worktreeGit.branch(['-v']);
-        const currentBranchInfo = branchSummary.current;
-        if (currentBranchInfo) {
-          // Check if ahead or behind
-          try {
-            const revParse = await worktreeGit.raw(['rev-parse', '--abbrev-ref', '@{upstream}']);
-            if (revParse.trim()) {
-              const aheadBehind = await worktreeGit.raw(['rev-list', '--left-right', '--count', `HEAD...@{upstream}`]);
-              const [ahead, behind] = aheadBehind.trim().split('\t').map(Number);
-              if (ahead > 0 && behind > 0) {
-                syncStatus = ` [ahead ${ahead}, behind ${behind}]`;
-              } else if (ahead > 0) {
-                syncStatus = ` [ahead ${ahead}]`;
-              } else if (behind > 0) {
-                syncStatus = ` [behind ${behind}]`;
-              }
-            }
-          } catch {
-            // No upstream configured
-          }
+      if (key === '\x1b[A' || key === '\x10') {
+        cursor = Math.max(cursor - 1, 0);
+      } else if (key === '\x1b[B' || key === '\x0e') {
+        cursor = Math.min(cursor + 1, Math.max(visible.length - 1, 0));
+      } else if (key === '\t' && options.multi && visible[cursor]) {
+        const value = visible[cursor].value;
+        if (!selected.delete(value)) {
+          selected.add(value);
         }
-      } catch {
-        // Ignore branch errors
+        cursor = Math.min(cursor + 1, visible.length - 1);
+      } else if (key === '\x7f' || key === '\b') {
+        query = query.slice(0, -1);
+      } else if (key === '\x15') {
+        query = '';
+      } else if (!key.startsWith('\x1b')) {
+        // Typed or pasted text; other control characters are ignored
+        const text = [...key].filter(char => char >= ' ').join('');
+        if (!text) {
+          return;
+        }
+        query += text;
+        cursor = 0;
+        offset = 0;
       }
       
-      // Mark current worktree
-      const isCurrent = currentCwd.startsWith(wt.path);
-      const marker = isCurrent ? '* ' : '  ';
-      
-      // Mark if directory doesn't exist (orphaned)
-      const orphanMarker = wt.exists ? '' : ' [ORPHANED]';
-      
-      console.log(`${marker}${branchName}${status}${syncStatus}${orphanMarker}`);
-      console.log(`    ${wt.path}`);
-      console.log('');
-    }
-  } catch (error) {
-    console.error(`List failed: ${(error as Error).message}`);
-    process.exit(1);
-  }
+      visible = matches();
+      render(visible);
+    };
+    
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+    render(visible);
+  });
 }
 
-async function addWorktree(branchName: string): Promise<void> {
-  const barePath = await getBarePath();
+async function pickWorktrees(prompt: string, multi = false): Promise<string[]> {
+  const repo = await requireRepo();
+  const worktrees = (await getWorktreeStatuses(repo)).filter(wt => wt.exists);
   
-  if (!barePath) {
-    console.error('Not in a tm-managed repository (no .bare directory found)');
-    process.exit(1);
+  if (worktrees.length === 0) {
+    throw new WorktreeNotFoundError('No worktrees to choose from');
   }
   
-  const actualRepoPath = barePath.replace('/.bare', '');
-  const branchPath = join(actualRepoPath, branchName);
+  return pick(worktrees.map(wt => ({
+    label: wt.branch || basename(wt.path),
+    detail: `${wt.isCurrent ? '(current)' : ''}${describeWorktreeStatus(wt)}`.trim(),
+    value: wt.path
+  })), { prompt, multi });
+}
+
+// Local and remote branches that do not have a worktree yet
+async function pickBranch(prompt: string): Promise<string> {
+  const repo = await requireRepo();
+  const bareGit = simpleGit({ baseDir: repo.barePath, binary: 'git' });
+  const remotePrefix = `refs/remotes/${repo.config.remote}/`;
   
-  if (await directoryExists(branchPath)) {
-    console.error(`Worktree ${branchName} already exists`);
-    process.exit(1);
-  }
+  const checkedOut = new Set((await listRegisteredWorktrees(repo)).map(wt => wt.branch));
+  const refs = (await bareGit.raw([
+    'for-each-ref',
+    '--sort=-committerdate',
+    '--format=%(refname)%09%(committerdate:relative)%09%(subject)',
+    'refs/heads/',
+    remotePrefix
+  ])).split('\n').filter(Boolean);
   
-  try {
-    const bareGit = simpleGit({
-      baseDir: barePath,
-      binary: 'git'
-    });
-    
-    // Check if branch exists (locally or remotely)
-    const { all: allBranches } = await bareGit.branch(['-a']);
-    const branchExists = allBranches.some(b => 
-      b === branchName || b === `remotes/origin/${branchName}`
-    );
-    
-    if (!branchExists) {
-      console.error(`Branch '${branchName}' does not exist locally or remotely`);
-      process.exit(1);
-    }
-    
-    // If branch only exists remotely, create local tracking branch
-    const localBranches = await bareGit.branch(['-l']);
-    const hasLocalBranch = localBranches.all.includes(branchName);
+  const items = new Map<string, PickerItem>();
+  for (const line of refs) {
+    const [ref, date, subject] = line.split('\t');
+    const isLocal = ref.startsWith('refs/heads/');
+    const name = isLocal ? ref.slice('refs/heads/'.length) : ref.slice(remotePrefix.length);
     
-    if (!hasLocalBranch) {
-      await bareGit.raw(['branch', '--track', branchName, `origin/${branchName}`]);
+    if (name === 'HEAD' || checkedOut.has(name) || (items.has(name) && !isLocal)) {
+      continue;
     }
-    
-    // Create worktree for the branch
-    await bareGit.raw(['worktree', 'add', branchPath, branchName]);
-    
-    console.log(`Created worktree for branch '${branchName}' at ${branchPath}`);
-    
-    await runPostHooks(branchPath);
-  } catch (error) {
-    console.error(`Add worktree failed: ${(error as Error).message}`);
-    process.exit(1);
+    items.set(name, {
+      label: name,
+      detail: `${isLocal ? 'local' : repo.config.remote}, ${date}: ${subject}`,
+      value: name
+    });
+  }
+  
+  if (items.size === 0) {
+    throw new BranchNotFoundError('Every branch already has a worktree');
   }
+  
+  const [name] = await pick([...items.values()], { prompt });
+  return name;
 }
 
-async function pruneWorktrees(): Promise<void> {
-  const barePath = await getBarePath();
-  
-  if (!barePath) {
-    console.error('Not in a tm-managed repository (no .bare directory found)');
-    process.exit(1);
+// Value of "--name value" or "--name=value"
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.findIndex(arg => arg === name || arg.startsWith(`${name}=`));
+  if (index === -1) {
+    return undefined;
+  }
+  if (args[index].includes('=')) {
+    return args[index].slice(name.length + 1);
+  }
+  if (!args[index + 1] || args[index + 1].startsWith('-')) {
+    usage(`Option ${name} needs a value`);
+  }
+  return args[index + 1];
+}
+
+// Every value of a repeatable option
+function getOptions(args: string[], name: string): string[] {
+  return args.flatMap((arg, i) => arg === name || arg.startsWith(`${name}=`) ? [getOption(args.slice(i), name)!] : []);
+}
+
+// Arguments that are neither flags nor the values of the given options
+function getPositionals(args: string[], valueOptions: string[] = []): string[] {
+  return args.filter((arg, i) => !arg.startsWith('-') && !valueOptions.includes(args[i - 1]));
+}
+
+function usage(...lines: string[]): never {
+  throw new TmError('USAGE', lines.join('\n'));
+}
+
+// Progress from WorktreeManager calls, printed like the rest of the CLI's output
+function printProgress(event: ProgressEvent): void {
+  if (event.level === 'warning' || event.level === 'stderr') {
+    console.error(event.message);
+  } else if (outputMode === 'text') {
+    console.log(event.message);
+  } else if (event.level === 'stdout') {
+    // Command output must not mix with --json/--porcelain results on stdout
+    console.error(event.message);
   }
+}
+
+async function runCommand(command: string | undefined, args: string[]): Promise<object> {
+  const manager = new WorktreeManager({ onProgress: printProgress });
   
-  try {
-    const bareGit = simpleGit({
-      baseDir: barePath,
-      binary: 'git'
-    });
-    
-    // Get worktree list
-    const worktreeOutput = await bareGit.raw(['worktree', 'list', '--porcelain']);
-    const orphanedWorktrees: { path: string; branch: string }[] = [];
-    
-    const entries = worktreeOutput.trim().split('\n\n');
-    for (const entry of entries) {
-      const lines = entry.split('\n');
-      const pathLine = lines.find(l => l.startsWith('worktree '));
-      const branchLine = lines.find(l => l.startsWith('branch '));
-      const bareLine = lines.find(l => l === 'bare');
+  switch (command) {
+    case 'clone': {
+      const [, repoInput] = getPositionals(args, ['--upstream', '--depth', '--filter']);
+      const depth = getOption(args, '--depth');
+      const filter = getOption(args, '--filter');
+      if (!repoInput || (depth !== undefined && !/^[1-9]\d*$/.test(depth))
+          || (filter !== undefined && !CLONE_FILTERS.includes(filter as CloneFilter))) {
+        usage(
+          'Usage: tm clone <repo-url-or-user/repo> [--upstream <repo>] [--depth N] [--filter blob:none|tree:0] [--single-branch]',
+          '                [--no-submodules] [--no-lfs]',
+          '  --upstream       Also add the project this is a fork of as the "upstream" remote',
+          '                   (detected through the hosting API when not given)',
+          '  --depth N        Only fetch the last N commits of each branch',
+          '  --filter         blob:none fetches file contents on demand, tree:0 directories too',
+          '  --single-branch  Only fetch the default branch; tm add fetches others when asked',
+          '  --no-submodules  Leave submodules empty (--no-lfs: Git LFS files as pointers)',
+          'Examples:',
+          '  tm clone https://github.com/user/reponame.git',
+          '  tm clone user/reponame',
+          '  tm clone me/reponame --upstream project/reponame',
+          '  tm clone big/monorepo --filter=blob:none --single-branch'
+        );
+      }
+      return manager.clone(repoInput, {
+        upstream: getOption(args, '--upstream'),
+        depth: depth ? Number(depth) : undefined,
+        filter: filter as CloneFilter | undefined,
+        singleBranch: args.includes('--single-branch'),
+        submodules: args.includes('--no-submodules') ? false : undefined,
+        lfs: args.includes('--no-lfs') ? false : undefined
+      });
+    }
       
-      if (pathLine && !bareLine) {
-        const path = pathLine.replace('worktree ', '');
-        const branch = branchLine ? branchLine.replace('branch ', '').replace('refs/heads/', '') : '';
-        
-        // Check if directory still exists
-        const exists = await directoryExists(path);
-        if (!exists) {
-          orphanedWorktrees.push({ path, branch });
-        }
+    case 'branch': {
+      const [, name] = getPositionals(args, ['--from', '--like', '--sparse']);
+      if (!name) {
+        usage(
+          'Usage: tm branch <branch-name> [--from <ref>] [--track | --no-track] [--like <branch>] [--sparse <profile>]',
+          '                 [--no-submodules] [--no-lfs]',
+          '  --from <ref>        Start from a branch, tag or commit (default: the freshly fetched default branch)',
+          '  --track             Track the --from branch as upstream (default: set by the first push)',
+          '  --like <branch>     Carry files from this worktree (default: the default branch\'s worktree)',
+          '  --sparse <profile>  Only check out the directories of this sparse profile',
+          '  --no-submodules     Leave submodules empty (--no-lfs: Git LFS files as pointers)'
+        );
       }
+      return manager.createBranch(name, {
+        from: getOption(args, '--from'),
+        track: args.includes('--track') && !args.includes('--no-track'),
+        like: getOption(args, '--like'),
+        sparse: getOption(args, '--sparse'),
+        submodules: args.includes('--no-submodules') ? false : undefined,
+        lfs: args.includes('--no-lfs') ? false : undefined
+      });
     }
-    
-    if (orphanedWorktrees.length === 0) {
-      console.log('No orphaned worktrees found');
-      return;
+      
+    case 'rm': {
+      const names = getPositionals(args).slice(1);
+      const options: RemoveOptions = {
+        deleteBranch: args.includes('-d') || args.includes('-D'),
+        requireMerged: !args.includes('-D'),
+        force: args.includes('--force')
+      };
+      if (names.length === 1) {
+        return manager.remove(names[0], options);
+      }
+      if (names.length === 0 && !isInteractive()) {
+        usage(
+          'Usage: tm rm <branch-name>... [-d | -D] [--force]',
+          '  -d        Also delete the branch, if it is merged into the default branch',
+          '  -D        Also delete the branch, if its commits are on a remote',
+          '  --force   Remove even with uncommitted changes, stashes or unpushed commits',
+          'Run in a terminal without a name to pick worktrees from a list'
+        );
+      }
+      return manager.removeAll(names.length > 0 ? names : await pickWorktrees('Remove:', true), options);
     }
-    
-    console.log(`Found ${orphanedWorktrees.length} orphaned worktree(s):`);
-    for (const wt of orphanedWorktrees) {
-      console.log(`  - ${wt.branch} (${wt.path})`);
+      
+    case 'list': {
+      const worktrees = await manager.list({ fast: args.includes('--fast'), cached: args.includes('--cached') });
+      printWorktreeList(worktrees);
+      return { worktrees: worktrees.map(toWorktreeRecord) };
     }
-    
-    // Remove orphaned worktrees
-    for (const wt of orphanedWorktrees) {
-      try {
-        await bareGit.raw(['worktree', 'remove', wt.path]);
-        console.log(`Pruned orphaned worktree: ${wt.branch}`);
-      } catch (error) {
-        console.error(`Failed to prune ${wt.branch}: ${(error as Error).message}`);
+      
+    case 'add': {
+      const [, name] = getPositionals(args, ['--like', '--remote', '--sparse']);
+      if (!name && !isInteractive()) {
+        usage(
+          'Usage: tm add <branch-name> [--like <branch>] [--remote <name>] [--sparse <profile>] [--no-submodules] [--no-lfs]',
+          'Creates worktree from existing branch',
+          'A remote branch can be named as <remote>/<branch>, or with --remote',
+          'Run in a terminal without a name to pick a branch from a list'
+        );
       }
+      return manager.addWorktree(name ?? await pickBranch('Add:'), {
+        like: getOption(args, '--like'),
+        remote: getOption(args, '--remote'),
+        sparse: getOption(args, '--sparse'),
+        submodules: args.includes('--no-submodules') ? false : undefined,
+        lfs: args.includes('--no-lfs') ? false : undefined
+      });
     }
-  } catch (error) {
-    console.error(`Prune failed: ${(error as Error).message}`);
-    process.exit(1);
-  }
-}
-
-async function syncWorktrees(): Promise<void> {
-  const barePath = await getBarePath();
-  
-  if (!barePath) {
-    console.error('Not in a tm-managed repository (no .bare directory found)');
-    process.exit(1);
-  }
-  
-  try {
-    const bareGit = simpleGit({
-      baseDir: barePath,
-      binary: 'git'
-    });
-    
-    // First fetch all updates
-    console.log('Fetching updates from origin...');
-    await bareGit.fetch(['origin']);
-    
-    // Get worktree list
-    const worktreeOutput = await bareGit.raw(['worktree', 'list', '--porcelain']);
-    const worktrees: { path: string; branch: string }[] = [];
-    
-    const entries = worktreeOutput.trim().split('\n\n');
-    for (const entry of entries) {
-      const lines = entry.split('\n');
-      const pathLine = lines.find(l => l.startsWith('worktree '));
-      const branchLine = lines.find(l => l.startsWith('branch '));
-      const bareLine = lines.find(l => l === 'bare');
       
-      if (pathLine && !bareLine) {
-        const path = pathLine.replace('worktree ', '');
-        const branch = branchLine ? branchLine.replace('branch ', '').replace('refs/heads/', '') : '';
-        worktrees.push({ path, branch });
+    case 'prune':
+      return manager.prune({ force: args.includes('--force') });
+      
+    case 'lock':
+    case 'unlock': {
+      const [, name] = getPositionals(args, ['--reason']);
+      if (!name) {
+        usage(
+          'Usage: tm lock <name> [--reason <text>]',
+          '       tm unlock <name>',
+          'Locked worktrees are skipped by prune, rm, clean and sync unless --force is given'
+        );
       }
+      return command === 'lock' ? manager.lock(name, getOption(args, '--reason')) : manager.unlock(name);
     }
-    
-    console.log(`\nSyncing ${worktrees.length} worktree(s)...\n`);
-    
-    for (const wt of worktrees) {
-      const worktreeGit = simpleGit({ baseDir: wt.path, binary: 'git' });
       
-      try {
-        // Check if there are uncommitted changes
-        const status = await worktreeGit.status();
-        if (status.files.length > 0) {
-          console.log(`⚠️  ${wt.branch}: Skipped (uncommitted changes)`);
-          continue;
-        }
-        
-        // Try to pull
-        await worktreeGit.pull();
-        console.log(`✓ ${wt.branch}: Synced`);
-      } catch (error) {
-        console.log(`✗ ${wt.branch}: Failed - ${(error as Error).message}`);
+    case 'clean': {
+      const olderThan = getOption(args, '--older-than');
+      if (olderThan !== undefined && !/^\d+d?$/.test(olderThan)) {
+        usage(
+          'Usage: tm clean [--dry-run] [--yes] [--older-than <days>] [--force]',
+          '  --dry-run            Only show what would be removed and why',
+          '  --yes                Remove every candidate without asking',
+          '  --older-than <days>  Also offer worktrees inactive for this many days',
+          '  --force              Remove even with uncommitted changes or stashes'
+        );
       }
+      // Not through the manager, which never prompts for a selection
+      return clean({
+        dryRun: args.includes('--dry-run'),
+        yes: args.includes('--yes'),
+        olderThan: olderThan === undefined ? undefined : parseInt(olderThan, 10),
+        force: args.includes('--force')
+      });
     }
-    
-    console.log('\nSync complete');
-  } catch (error) {
-    console.error(`Sync failed: ${(error as Error).message}`);
-    process.exit(1);
+      
+    case 'sync': {
+      const strategy = getOption(args, '--strategy');
+      if (strategy && !SYNC_STRATEGIES.includes(strategy as SyncStrategy)) {
+        usage(
+          'Usage: tm sync [--strategy ff-only|rebase|merge] [--autostash] [--only <glob>] [--exclude <glob>] [--force] [--all-remotes]',
+          '  --strategy    ff-only: fast-forward only; rebase: onto the upstream, then the recorded base',
+          '                or default branch; merge: merge the upstream (default: syncStrategy config)',
+          '  --autostash   Stash uncommitted changes around the update instead of skipping',
+          '  --only        Only sync branches matching the glob (repeatable)',
+          '  --exclude     Skip branches matching the glob (repeatable)',
+          '  --force       Also sync locked worktrees',
+          '  --all-remotes Fetch every remote, not only the ones worktrees track'
+        );
+      }
+      return manager.sync({
+        strategy: strategy as SyncStrategy | undefined,
+        autostash: args.includes('--autostash'),
+        only: getOptions(args, '--only'),
+        exclude: getOptions(args, '--exclude'),
+        force: args.includes('--force'),
+        allRemotes: args.includes('--all-remotes')
+      });
+    }
+      
+    case 'foreach':
+    case 'exec': {
+      const separator = args.indexOf('--');
+      const options = separator === -1 ? args : args.slice(0, separator);
+      const commandLine = separator === -1 ? [] : args.slice(separator + 1);
+      const parallel = getOption(options, '--parallel');
+      if (commandLine.length === 0 || (parallel !== undefined && !/^[1-9]\d*$/.test(parallel))
+          || (options.includes('--dirty') && options.includes('--clean'))) {
+        usage(
+          `Usage: tm ${command} [--parallel N] [--only <glob>] [--exclude <glob>] [--dirty | --clean] [--fail-fast] [--group] -- <command>`,
+          '  --parallel    Run in N worktrees at once, prefixing each output line with the branch',
+          '  --only        Only run in branches matching the glob (repeatable)',
+          '  --exclude     Skip branches matching the glob (repeatable)',
+          '  --dirty       Only run in worktrees with uncommitted changes (--clean: without)',
+          '  --fail-fast   Start no further worktrees after a command fails',
+          '  --group       Print each worktree\'s output in one block when it finishes',
+          'A single argument runs through sh -c; TM_BRANCH, TM_WORKTREE_PATH, TM_REPO_ROOT',
+          'and TM_BASE_BRANCH describe the worktree',
+          'Example:',
+          `  tm ${command} --parallel 4 -- 'bun install && bun test'`
+        );
+      }
+      return manager.foreach(commandLine, {
+        parallel: parallel ? Number(parallel) : undefined,
+        only: getOptions(options, '--only'),
+        exclude: getOptions(options, '--exclude'),
+        state: options.includes('--dirty') ? 'dirty' : options.includes('--clean') ? 'clean' : undefined,
+        failFast: options.includes('--fail-fast'),
+        group: options.includes('--group')
+      });
+    }
+      
+    case 'mv': {
+      const [, from, to] = getPositionals(args);
+      if (!from || !to) {
+        usage(
+          'Usage: tm mv <old-name> <new-name> [--remote]',
+          '  --remote   Also rename the branch on the remote and track the new name'
+        );
+      }
+      return manager.move(from, to, { remote: args.includes('--remote') });
+    }
+      
+    case 'env':
+      return manager.env(args[1]);
+      
+    case 'log': {
+      const limit = getOption(args, '-n');
+      if (limit !== undefined && !/^[1-9]\d*$/.test(limit)) {
+        usage(
+          'Usage: tm log [-n <count>]',
+          'Shows the operations that changed branches or worktrees, latest first (default: the last 20)'
+        );
+      }
+      return manager.log({ limit: limit ? Number(limit) : undefined });
+    }
+      
+    case 'undo': {
+      const [, id] = getPositionals(args);
+      if (id !== undefined && !/^\d+$/.test(id)) {
+        usage(
+          'Usage: tm undo [id] [--force]',
+          'Reverses an operation from tm log (default: the latest one not undone yet):',
+          '  removed worktrees and branches come back at their recorded commit, with any',
+          '  changes a forced rm stashed; synced branches are reset to where they were;',
+          '  created worktrees are removed; renames are renamed back',
+          '  --force   Reset branches that moved on since, and remove worktrees with unsaved work'
+        );
+      }
+      return manager.undo(id === undefined ? undefined : Number(id), { force: args.includes('--force') });
+    }
+      
+    case 'sparse': {
+      const off = args.includes('--off');
+      const positionals = getPositionals(args).slice(1);
+      const [profile, name] = off ? [null, positionals[0]] : positionals;
+      if ((!off && !profile) || positionals.length > (off ? 1 : 2)) {
+        usage(
+          'Usage: tm sparse <profile> [name]',
+          '       tm sparse --off [name]',
+          'Checks out only the directories of a sparse profile from the "sparse" config',
+          'in a worktree (default: the current one); --off checks out everything again'
+        );
+      }
+      return manager.sparse(profile ?? null, name);
+    }
+      
+    case 'convert': {
+      const dryRun = args.includes('--dry-run');
+      const targetPath = args.slice(1).find(arg => !arg.startsWith('-')) ?? process.cwd();
+      return convert(targetPath, { dryRun });
+    }
+      
+    case 'pr': {
+      const remote = getOption(args, '--remote');
+      if (args.includes('--clean')) {
+        return cleanPullRequests({ remote });
+      }
+      const [, number] = getPositionals(args, ['--remote', '--update']);
+      const update = getOption(args, '--update');
+      if (update) {
+        return updatePullRequest(parsePullRequestNumber(update), { remote });
+      }
+      if (!number) {
+        usage(
+          'Usage: tm pr <number> [--remote <name>]',
+          '       tm pr --update <number>',
+          '       tm pr --clean',
+          'Checks out a pull/merge request as a worktree on branch pr/<number>'
+        );
+      }
+      return checkoutPullRequest(parsePullRequestNumber(number), { remote });
+    }
+      
+    case 'doctor':
+      return doctor({ fix: args.includes('--fix') });
+      
+    case 'switch': {
+      const [, name] = getPositionals(args);
+      if (!name && !isInteractive()) {
+        usage(
+          'Usage: tm switch <branch-name>',
+          'Outputs path to worktree (use with cd):',
+          '  cd $(tm switch <branch-name>)',
+          'Or set up `tm shell-init` to change directory automatically',
+          'Run in a terminal without a name to pick a worktree from a list'
+        );
+      }
+      const [picked] = name ? [name] : await pickWorktrees('Switch to:');
+      return switchWorktree(picked);
+    }
+      
+    case 'shell-init':
+      return shellInit(args[1]);
+      
+    default:
+      usage(
+        'Usage: tm <command>',
+        '',
+        'Commands:',
+        '  clone <repo>       Clone repository with worktree structure',
+        '                      Accepts URLs or "user/repo" format; [--upstream <repo>] for forks',
+        '                      [--depth N] [--filter blob:none|tree:0] [--single-branch]',
+        '  convert [path]     Convert an existing clone to the worktree structure',
+        '                      Use --dry-run to preview the changes',
+        '  branch <name>      Create new branch and worktree',
+        '                      [--from <ref>] [--track | --no-track] [--sparse <profile>]',
+        '                      Checks out submodules and Git LFS files unless --no-submodules, --no-lfs',
+        '  add <name>         Create worktree from existing branch [--like <branch>]',
+        '                      <remote>/<name> or --remote <remote> takes it from another remote',
+        '  rm <name>...       Remove worktrees, refusing if work would be lost',
+        '                      [-d | -D] also deletes the branch, --force skips the checks',
+        '  mv <old> <new>     Rename a branch and move its worktree [--remote]',
+        '  list               List all worktrees with status',
+        '                      --fast skips dirty checks, --cached reuses recent results',
+        '  prune              Remove orphaned worktrees, skipping locked ones unless --force',
+        '  lock <name>        Protect a worktree from prune, rm, clean and sync [--reason <text>]',
+        '  unlock <name>      Remove the lock',
+        '  clean              Remove worktrees of merged or abandoned branches',
+        '                      [--dry-run] [--yes] [--older-than <days>] [--force]',
+        '  sync               Update all worktrees from their upstream and report',
+        '                      [--strategy ff-only|rebase|merge] [--autostash] [--only|--exclude <glob>]',
+        '                      --all-remotes fetches every remote',
+        '  foreach -- <cmd>   Run a command in every worktree (alias: exec)',
+        '                      [--parallel N] [--only|--exclude <glob>] [--dirty | --clean] [--fail-fast]',
+        '  env [name]         Print the ports and names allocated to a worktree',
+        '  sparse <profile>   Check out only a sparse profile\'s directories [name]',
+        '                      --off checks out everything again',
+        '  log [-n <count>]   Show the operations that changed branches or worktrees',
+        '  undo [id]          Reverse an operation from the log (default: the latest) [--force]',
+        '  switch <name>      Output worktree path (for cd wrapper)',
+        '  pr <number>        Check out a pull/merge request as a worktree',
+        '                      --update <number> refreshes it, --clean drops closed ones',
+        '  doctor [--fix]     Check (and repair) repository setup',
+        '  shell-init <shell> Print the shell wrapper (auto-cd) and completions',
+        '                      for bash, zsh or fish',
+        '',
+        'Run switch, rm or add without a name in a terminal to pick from a list.',
+        '',
+        'Options:',
+        '  --json             Print a JSON result (or error) object',
+        '  --porcelain        Print stable line-based output for scripts',
+        '  --version, -v      Show version'
+      );
   }
 }
 
-async function switchWorktree(branchName: string): Promise<void> {
-  const barePath = await getBarePath();
+// Commands that ran but left failed items or unfixed doctor checks exit with status 1
+function hasProblems(result: object): boolean {
+  const items = 'results' in result ? result.results : 'checks' in result ? result.checks : [];
+  return (items as { status: string }[]).some(item => ['failed', 'conflicted', 'problem'].includes(item.status));
+}
+
+async function main(): Promise<void> {
+  const rawArgs = process.argv.slice(2);
   
-  if (!barePath) {
-    console.error('Not in a tm-managed repository (no .bare directory found)');
-    process.exit(1);
+  if (rawArgs[0] === '__complete') {
+    for (const candidate of await complete(rawArgs.slice(1))) {
+      console.log(candidate);
+    }
+    return;
   }
   
-  const actualRepoPath = barePath.replace('/.bare', '');
-  const branchPath = join(actualRepoPath, branchName);
+  // Anything after "--" belongs to the command `tm foreach` runs
+  const separator = rawArgs.indexOf('--');
+  const tmArgs = separator === -1 ? rawArgs : rawArgs.slice(0, separator);
   
-  if (!(await directoryExists(branchPath))) {
-    console.error(`Worktree '${branchName}' does not exist`);
-    console.error(`Use 'tm add ${branchName}' to create it from an existing branch`);
-    console.error(`Or use 'tm branch ${branchName}' to create a new branch`);
-    process.exit(1);
+  if (tmArgs.includes('--json')) {
+    outputMode = 'json';
+  } else if (tmArgs.includes('--porcelain')) {
+    outputMode = 'porcelain';
   }
   
-  // Output the path - useful for shell wrappers like:
-  //   cd $(tm switch branch-name)
-  console.log(branchPath);
-}
-
-async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  const args = [
+    ...tmArgs.filter(arg => arg !== '--json' && arg !== '--porcelain'),
+    ...(separator === -1 ? [] : rawArgs.slice(separator))
+  ];
   const command = args[0];
 
   if (command === '--version' || command === '-v') {
@@ -658,87 +5086,33 @@ async function main(): Promise<void> {
     process.exit(0);
   }
   
-  switch (command) {
-    case 'clone':
-      if (!args[1]) {
-        console.error('Usage: tm clone <repo-url-or-user/repo>');
-        console.error('Examples:');
-        console.error('  tm clone https://github.com/user/reponame.git');
-        console.error('  tm clone user/reponame');
-        process.exit(1);
-      }
-      await clone(args[1]);
-      break;
-      
-    case 'branch':
-      if (!args[1]) {
-        console.error('Usage: tm branch <branch-name>');
-        process.exit(1);
-      }
-      await branch(args[1]);
-      break;
-      
-    case 'rm':
-      if (!args[1]) {
-        console.error('Usage: tm rm <branch-name> [-D]');
-        process.exit(1);
-      }
-      const deleteBranch = args.includes('-D');
-      await remove(args[1], { deleteBranch });
-      break;
-      
-    case 'list':
-      await listWorktrees();
-      break;
-      
-    case 'add':
-      if (!args[1]) {
-        console.error('Usage: tm add <branch-name>');
-        console.error('Creates worktree from existing branch');
-        process.exit(1);
-      }
-      await addWorktree(args[1]);
-      break;
-      
-    case 'prune':
-      await pruneWorktrees();
-      break;
-      
-    case 'sync':
-      await syncWorktrees();
-      break;
-      
-    case 'switch':
-      if (!args[1]) {
-        console.error('Usage: tm switch <branch-name>');
-        console.error('Outputs path to worktree (use with cd):');
-        console.error('  cd $(tm switch <branch-name>)');
-        process.exit(1);
+  const startDir = process.cwd();
+  
+  try {
+    const result = await runCommand(command, args);
+    emitResult(command, result);
+    
+    if (hasProblems(result)) {
+      process.exitCode = 1;
+    }
+    
+    const cdFile = process.env.TM_CD_FILE;
+    if (cdFile && outputMode === 'text') {
+      const target = await directoryChangeTarget(command, result, startDir);
+      if (target) {
+        await Bun.write(cdFile, target);
       }
-      await switchWorktree(args[1]);
-      break;
-      
-    default:
-      console.error('Usage: tm <command>');
-      console.error('');
-      console.error('Commands:');
-      console.error('  clone <repo>       Clone repository with worktree structure');
-      console.error('                      Accepts URLs or "user/repo" format');
-      console.error('  branch <name>      Create new branch and worktree');
-      console.error('  add <name>         Create worktree from existing branch');
-      console.error('  rm <name> [-D]     Remove worktree (and optionally branch)');
-      console.error('  list               List all worktrees with status');
-      console.error('  prune              Remove orphaned worktrees');
-      console.error('  sync               Pull latest changes to all worktrees');
-      console.error('  switch <name>      Output worktree path (for cd wrapper)');
-      console.error('');
-      console.error('Options:');
-      console.error('  --version, -v      Show version');
-      process.exit(1);
-  }
-}
-
-main().catch((error: Error) => {
-  console.error(`Error: ${error.message}`);
-  process.exit(1);
-});
\ No newline at end of file
+    }
+  } catch (error) {
+    emitError(command, error);
+    process.exit(1);
+  }
+}
+
+// Only when run as the CLI, not when imported as a library
+if (import.meta.main) {
+  main().catch((error: Error) => {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  });
+}